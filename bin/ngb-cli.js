@@ -154,7 +154,8 @@ if (_version.compare(new SemVer('8.9.0')) < 0) {
 let _projectRoot = process.cwd();
 const _args = process.argv.slice(2);
 let forceUseLocalCli = false;
-if (_args.length >= 2 && _args[0] === 'build') {
+if (_args.length >= 2 && (_args[0] === 'build' || _args[0] === 'serve' || _args[0] === 'inspect' || _args[0] === 'clean' ||
+    _args[0] === 'extract-i18n')) {
     const argv = require('yargs')
         .option('config', {
             alias: 'c',
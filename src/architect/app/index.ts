@@ -6,63 +6,43 @@ import {
     BuilderConfiguration,
     BuilderContext
 } from '@angular-devkit/architect';
-import { getSystemPath, resolve } from '@angular-devkit/core';
+import { Path, getSystemPath, resolve } from '@angular-devkit/core';
 import { Observable, of } from 'rxjs';
 import { concatMap } from 'rxjs/operators';
 import * as webpack from 'webpack';
 
-import { AngularBuildContext, AppProjectConfigInternal } from '../../build-context';
+import { AngularBuildContext, AppProjectConfigInternal, BuildOptionInternal } from '../../build-context';
 import {
     applyProjectConfigDefaults,
     applyProjectConfigExtends,
     applyProjectConfigWithEnvironment,
     applyAppConfigCompat,
     getBuildOptionsFromBuilderOptions,
+    getDifferentialLoadingAppConfigs,
+    getI18nLocaleAppConfigs,
+    getServerBundleAppConfigs,
     getWebpackToStringStatsOptions
 } from '../../helpers';
 import { AppBuilderOptions } from '../../interfaces';
 import { normalizeRelativePath } from '../../utils';
 import { getAppWebpackConfig } from '../../webpack-configs/app';
 
+export interface AppBuilderPreparedConfig {
+    workspaceRoot: string;
+    buildOptions: BuildOptionInternal;
+    appConfig: AppProjectConfigInternal;
+    appConfigEnvApplied: AppProjectConfigInternal;
+}
+
 export class AppBuilder<TConfig extends AppBuilderOptions> implements Builder<TConfig> {
-    private readonly _startTime = Date.now();
+    protected readonly _startTime = Date.now();
 
     constructor(public context: BuilderContext) { }
 
     run(builderConfig: BuilderConfiguration<TConfig>): Observable<BuildEvent> {
-        const workspaceRoot = getSystemPath(this.context.workspace.root);
-        const projectRoot = getSystemPath(resolve(this.context.workspace.root, builderConfig.root));
         const options = JSON.parse(JSON.stringify(builderConfig.options)) as AppBuilderOptions;
-
-        const buildOptions = getBuildOptionsFromBuilderOptions(options);
-        if (!options.root && builderConfig.root) {
-            options.root = normalizeRelativePath(path.relative(workspaceRoot, projectRoot));
-        }
-
-        applyAppConfigCompat(options);
-        const appConfig = options as AppProjectConfigInternal;
-        appConfig._projectType = 'app';
-        appConfig._index = 0;
-        appConfig._configPath = path.resolve(workspaceRoot, 'angular.json');
-
-        // Delete empty array
-        Object.keys(appConfig).forEach(key => {
-            const appConfigAny = <any>appConfig;
-            if (appConfigAny[key] && Array.isArray(appConfigAny[key]) && appConfigAny[key].length === 0) {
-                delete appConfigAny[key];
-            }
-        });
-
-        // extends
-        applyProjectConfigExtends(appConfig);
-
-        const appConfigEnvApplied = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
-
-        // apply env
-        applyProjectConfigWithEnvironment(appConfigEnvApplied, buildOptions.environment);
-
-        // apply defaults
-        applyProjectConfigDefaults(appConfigEnvApplied, buildOptions.environment);
+        const { workspaceRoot, buildOptions, appConfig, appConfigEnvApplied } =
+            this.prepareAppConfig(options, builderConfig.root);
 
         return of(null).pipe(
             concatMap(() => new Observable(obs => {
@@ -75,33 +55,40 @@ export class AppBuilder<TConfig extends AppBuilderOptions> implements Builder<TC
                     return () => { };
                 }
 
-                const angularBuildContext = new AngularBuildContext({
-                    workspaceRoot: workspaceRoot,
-                    startTime: this._startTime,
-                    host: this.context.host as any,
-                    // logger: this.context.logger,
-
-                    projectConfig: appConfigEnvApplied,
-                    projectConfigWithoutEnvApplied: appConfig,
-                    buildOptions: buildOptions,
-
-                });
-
-                let wpConfig: webpack.Configuration;
+                let wpConfigs: webpack.Configuration[];
                 try {
-                    wpConfig = getAppWebpackConfig(angularBuildContext);
+                    // Each locale, server bundle and differential loading target is built with its own config
+                    const expandedAppConfigs: AppProjectConfigInternal[] = [];
+                    getI18nLocaleAppConfigs(appConfigEnvApplied).forEach(localeAppConfig =>
+                        getServerBundleAppConfigs(localeAppConfig).forEach(bundleAppConfig =>
+                            expandedAppConfigs.push(...getDifferentialLoadingAppConfigs(bundleAppConfig))));
+                    wpConfigs = expandedAppConfigs.map(expandedAppConfig => {
+                        const angularBuildContext = new AngularBuildContext({
+                            workspaceRoot: workspaceRoot,
+                            startTime: this._startTime,
+                            host: this.context.host as any,
+                            // logger: this.context.logger,
+
+                            projectConfig: expandedAppConfig,
+                            projectConfigWithoutEnvApplied: appConfig,
+                            buildOptions: buildOptions,
+
+                        });
+
+                        return getAppWebpackConfig(angularBuildContext);
+                    });
                 } catch (configErr) {
                     obs.error(configErr);
 
                     return () => { };
                 }
 
-                const firstConfig = Array.isArray(wpConfig) ? wpConfig[0] : wpConfig;
+                const firstConfig = wpConfigs[0];
                 const statsOptions = firstConfig.stats
                     ? firstConfig.stats
                     : getWebpackToStringStatsOptions(buildOptions.logLevel === 'debug');
 
-                const webpackCompiler = webpack(wpConfig);
+                const webpackCompiler = wpConfigs.length === 1 ? webpack(firstConfig) : webpack(wpConfigs);
                 const callback: webpack.Compiler.Handler = (err: Error, stats: webpack.Stats) => {
                     if (err) {
                         return obs.error(err);
@@ -149,6 +136,48 @@ export class AppBuilder<TConfig extends AppBuilderOptions> implements Builder<TC
             })),
         );
     }
+
+    protected prepareAppConfig(options: AppBuilderOptions, builderRoot: Path): AppBuilderPreparedConfig {
+        const workspaceRoot = getSystemPath(this.context.workspace.root);
+        const projectRoot = getSystemPath(resolve(this.context.workspace.root, builderRoot));
+
+        const buildOptions = getBuildOptionsFromBuilderOptions(options);
+        if (!options.root && builderRoot) {
+            options.root = normalizeRelativePath(path.relative(workspaceRoot, projectRoot));
+        }
+
+        applyAppConfigCompat(options);
+        const appConfig = options as AppProjectConfigInternal;
+        appConfig._projectType = 'app';
+        appConfig._index = 0;
+        appConfig._configPath = path.resolve(workspaceRoot, 'angular.json');
+
+        // Delete empty array
+        Object.keys(appConfig).forEach(key => {
+            const appConfigAny = <any>appConfig;
+            if (appConfigAny[key] && Array.isArray(appConfigAny[key]) && appConfigAny[key].length === 0) {
+                delete appConfigAny[key];
+            }
+        });
+
+        // extends
+        applyProjectConfigExtends(appConfig);
+
+        const appConfigEnvApplied = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
+
+        // apply env
+        applyProjectConfigWithEnvironment(appConfigEnvApplied, buildOptions.environment);
+
+        // apply defaults
+        applyProjectConfigDefaults(appConfigEnvApplied, buildOptions.environment);
+
+        return {
+            workspaceRoot: workspaceRoot,
+            buildOptions: buildOptions,
+            appConfig: appConfig,
+            appConfigEnvApplied: appConfigEnvApplied
+        };
+    }
 }
 
 export default AppBuilder;
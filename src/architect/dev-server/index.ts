@@ -0,0 +1,155 @@
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+
+import {
+    BuildEvent,
+    BuilderConfiguration
+} from '@angular-devkit/architect';
+import { Observable, of } from 'rxjs';
+import { concatMap } from 'rxjs/operators';
+import * as webpack from 'webpack';
+
+import { AngularBuildContext } from '../../build-context';
+import { InvalidConfigError } from '../../error-models';
+import { getDevServerOptionsFromBuilderOptions } from '../../helpers';
+import { DevServerBuilderOptions, DevServerOptions } from '../../interfaces';
+import { readJsonSync } from '../../utils';
+import { getAppWebpackConfig } from '../../webpack-configs/app';
+
+import { AppBuilder, AppBuilderPreparedConfig } from '../app';
+
+const WebpackDevServer = require('webpack-dev-server');
+
+export class DevServerBuilder extends AppBuilder<DevServerBuilderOptions> {
+    run(builderConfig: BuilderConfiguration<DevServerBuilderOptions>): Observable<BuildEvent> {
+        const options = JSON.parse(JSON.stringify(builderConfig.options)) as DevServerBuilderOptions;
+        const devServerOptions = getDevServerOptionsFromBuilderOptions(options);
+
+        return of(null).pipe(
+            concatMap(() => new Observable<BuildEvent>(obs => {
+                let preparedConfig: AppBuilderPreparedConfig;
+                try {
+                    preparedConfig = this.prepareAppConfig(options, builderConfig.root);
+                } catch (configErr) {
+                    obs.error(configErr);
+
+                    return () => { };
+                }
+
+                const { workspaceRoot, buildOptions, appConfig, appConfigEnvApplied } = preparedConfig;
+                buildOptions.watch = true;
+                buildOptions._devServer = true;
+
+                if (appConfigEnvApplied.skip) {
+                    this.context.logger.info('Skip serving');
+
+                    obs.next({ success: true });
+                    obs.complete();
+
+                    return () => { };
+                }
+
+                const angularBuildContext = new AngularBuildContext({
+                    workspaceRoot: workspaceRoot,
+                    startTime: this._startTime,
+                    host: this.context.host as any,
+
+                    projectConfig: appConfigEnvApplied,
+                    projectConfigWithoutEnvApplied: appConfig,
+                    buildOptions: buildOptions,
+
+                });
+
+                let wpConfig: webpack.Configuration;
+                let webpackDevServerOptions: { [key: string]: any };
+                try {
+                    wpConfig = getAppWebpackConfig(angularBuildContext);
+                    webpackDevServerOptions = this.createWebpackDevServerOptions(wpConfig, devServerOptions, workspaceRoot);
+                } catch (configErr) {
+                    obs.error(configErr);
+
+                    return () => { };
+                }
+
+                // Add the dev server client to the entries for live reload
+                WebpackDevServer.addDevServerEntrypoints(wpConfig, webpackDevServerOptions);
+
+                const webpackCompiler = webpack(wpConfig);
+                webpackCompiler.hooks.done.tap('angular-build-dev-server', (stats: webpack.Stats) => {
+                    // Never complete on dev server.
+                    obs.next({ success: !stats.hasErrors() });
+                });
+
+                const server = new WebpackDevServer(webpackCompiler, webpackDevServerOptions);
+                server.listen(webpackDevServerOptions.port,
+                    webpackDevServerOptions.host,
+                    (err: Error) => {
+                        if (err) {
+                            obs.error(err);
+                            return;
+                        }
+
+                        const protocol = webpackDevServerOptions.https ? 'https' : 'http';
+                        AngularBuildContext.logger.info(
+                            `\nAngular build dev server is listening on ${protocol}://${webpackDevServerOptions.host}:${
+                            webpackDevServerOptions.port}${webpackDevServerOptions.publicPath || '/'}\n`);
+                    });
+
+                // Teardown logic. Close the server when unsubscribed from.
+                return () => server.close();
+            })),
+        );
+    }
+
+    private createWebpackDevServerOptions(wpConfig: webpack.Configuration,
+        devServerOptions: DevServerOptions,
+        workspaceRoot: string): { [key: string]: any } {
+        const liveReload = devServerOptions.liveReload !== false;
+        const webpackDevServerOptions: { [key: string]: any } = {
+            ...wpConfig.devServer,
+            host: devServerOptions.host || 'localhost',
+            port: devServerOptions.port != null ? devServerOptions.port : 4200,
+            inline: liveReload,
+            disableHostCheck: devServerOptions.disableHostCheck ? true : false
+        };
+
+        if (devServerOptions.publicHost) {
+            webpackDevServerOptions.public = devServerOptions.publicHost;
+        }
+
+        if (devServerOptions.proxyConfig) {
+            const proxyConfigPath = path.resolve(workspaceRoot, devServerOptions.proxyConfig);
+            if (!existsSync(proxyConfigPath)) {
+                throw new InvalidConfigError(`The proxy config file does not exist at ${proxyConfigPath}.`);
+            }
+
+            webpackDevServerOptions.proxy = /\.json$/i.test(proxyConfigPath)
+                ? readJsonSync(proxyConfigPath)
+                : require(proxyConfigPath);
+        }
+
+        if (devServerOptions.ssl) {
+            if (devServerOptions.sslKey && devServerOptions.sslCert) {
+                const sslKeyPath = path.resolve(workspaceRoot, devServerOptions.sslKey);
+                const sslCertPath = path.resolve(workspaceRoot, devServerOptions.sslCert);
+                if (!existsSync(sslKeyPath)) {
+                    throw new InvalidConfigError(`The ssl key file does not exist at ${sslKeyPath}.`);
+                }
+                if (!existsSync(sslCertPath)) {
+                    throw new InvalidConfigError(`The ssl certificate file does not exist at ${sslCertPath}.`);
+                }
+
+                webpackDevServerOptions.https = {
+                    key: readFileSync(sslKeyPath, 'utf-8'),
+                    cert: readFileSync(sslCertPath, 'utf-8')
+                };
+            } else {
+                webpackDevServerOptions.https = true;
+            }
+        }
+
+        return webpackDevServerOptions;
+    }
+}
+
+export default DevServerBuilder;
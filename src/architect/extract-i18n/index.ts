@@ -0,0 +1,45 @@
+import * as path from 'path';
+
+import {
+    BuildEvent,
+    BuilderConfiguration
+} from '@angular-devkit/architect';
+import { Observable, from, of } from 'rxjs';
+import { concatMap, map } from 'rxjs/operators';
+
+import { extractI18nMessages, getAppExtractI18nMessagesOptions } from '../../helpers';
+import { AppBuilderOptions } from '../../interfaces';
+import { normalizeRelativePath } from '../../utils';
+
+import { AppBuilder } from '../app';
+
+export class ExtractI18nBuilder extends AppBuilder<AppBuilderOptions> {
+    run(builderConfig: BuilderConfiguration<AppBuilderOptions>): Observable<BuildEvent> {
+        const options = JSON.parse(JSON.stringify(builderConfig.options)) as AppBuilderOptions;
+
+        return of(null).pipe(
+            concatMap(() => {
+                const { workspaceRoot, appConfigEnvApplied } = this.prepareAppConfig(options, builderConfig.root);
+                if (appConfigEnvApplied.skip) {
+                    this.context.logger.info('Skip extracting');
+
+                    return of({ success: true });
+                }
+
+                return from(extractI18nMessages(getAppExtractI18nMessagesOptions(appConfigEnvApplied, workspaceRoot))).pipe(
+                    map(result => {
+                        this.context.logger.info(`${result.messageIds.length} message(s) written to ${
+                            normalizeRelativePath(path.relative(workspaceRoot, result.outFile))}, ${result.newMessageIds.length} new, ${
+                            result.removedMessageIds.length} removed${
+                            result.newMessageIds.map(id => `\n  + ${id}`).join('')}${
+                            result.removedMessageIds.map(id => `\n  - ${id}`).join('')}`);
+
+                        return { success: true };
+                    })
+                );
+            })
+        );
+    }
+}
+
+export default ExtractI18nBuilder;
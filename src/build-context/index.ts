@@ -25,6 +25,10 @@ import { isInFolder, isSamePaths, Logger, LogLevelSring, normalizeRelativePath,
 
 export interface BuildOptionInternal extends BuildOptions {
     environment: { [key: string]: boolean | string };
+
+    _devServer?: boolean;
+    _skipDependencies?: boolean;
+    _affectedProjects?: string[];
 }
 
 export interface DllParsedResult {
@@ -109,6 +113,9 @@ export interface AppProjectConfigInternal extends AppProjectConfig, ProjectConfi
     _nodeResolveFields?: string[];
 
     _isDll?: boolean;
+    _i18nLocaleIndex?: number;
+    _differentialLoading?: 'legacy' | 'modern';
+    _isServerBundle?: boolean;
     _dllParsedResult?: DllParsedResult;
     _polyfillParsedResult?: DllParsedResult;
     _scriptParsedEntries?: GlobalParsedEntry[];
@@ -644,6 +651,14 @@ export class AngularBuildContext<TConfig extends AppProjectConfigInternal | LibP
                 appConfig._tsConfigPath);
             const compilerOptions = appConfig._tsCompilerConfig.options;
 
+            // differential loading
+            if (appConfig._differentialLoading === 'legacy') {
+                compilerOptions.target = ts.ScriptTarget.ES5;
+            } else if (appConfig._differentialLoading === 'modern' &&
+                (!compilerOptions.target || compilerOptions.target < ts.ScriptTarget.ES2015)) {
+                compilerOptions.target = ts.ScriptTarget.ES2015;
+            }
+
             // _tsOutDir
             let tsOutputPath: string | undefined;
             if (!compilerOptions.outDir) {
@@ -62,6 +62,14 @@ Usage:
                         type: 'boolean',
                         boolean: true
                     })
+                .option('affected',
+                    {
+                        describe: 'Build only the project(s) affected by the git changes since the base ref, default to origin/HEAD branch.'
+                    })
+                .option('parallel',
+                    {
+                        describe: 'Build the project(s) in parallel child processes, optionally with the max process count.'
+                    })
                 .option('beep',
                     {
                         describe: 'Beep when build completed.',
@@ -1,9 +1,19 @@
 import * as path from 'path';
 import * as webpack from 'webpack';
 
+import {
+    getAffectedProjectConfigs,
+    getDefaultAngularBuildConfigPath,
+    getDefaultGitBaseRef,
+    getProjectConfigKey,
+    normalizeEnvironment,
+    readAngularBuildConfig,
+    resolveProjectConfigs
+} from '../../helpers';
 import { runWebpack } from '../../helpers/run-webpack';
 import {
     InvalidConfigError,
+    InvalidOptionError,
     TypescriptCompileError,
     UglifyError,
     UnSupportedStyleExtError
@@ -13,6 +23,8 @@ import { getWebpackConfigFromAngularBuildConfig } from '../../webpack-configs';
 
 import { CliOptions } from '../cli-options';
 
+import { runParallelBuild } from './parallel-build';
+
 const { exists } = require('fs-extra');
 
 export async function cliBuild(cliOptions: CliOptions): Promise<number> {
@@ -32,7 +44,7 @@ export async function cliBuild(cliOptions: CliOptions): Promise<number> {
             ? path.resolve(commandOptions.config)
             : path.resolve(process.cwd(), commandOptions.config);
     } else {
-        configPath = path.resolve(process.cwd(), 'angular-build.json');
+        configPath = getDefaultAngularBuildConfigPath(process.cwd());
     }
 
     const watch = commandOptions.watch ? true : false;
@@ -51,6 +63,45 @@ export async function cliBuild(cliOptions: CliOptions): Promise<number> {
         return -1;
     }
 
+    if (commandOptions.affected) {
+        let baseRef = typeof commandOptions.affected === 'string' ? commandOptions.affected : '';
+        let affectedProjects: string[] = [];
+        try {
+            if (!baseRef) {
+                baseRef = getDefaultGitBaseRef(path.dirname(configPath));
+            }
+
+            const normalizedEnvironment = normalizeEnvironment(environment);
+            const angularBuildConfig = readAngularBuildConfig(configPath, normalizedEnvironment);
+            const projectConfigs = resolveProjectConfigs(angularBuildConfig, normalizedEnvironment, []);
+            affectedProjects = getAffectedProjectConfigs(projectConfigs, path.dirname(configPath), baseRef)
+                .map(p => getProjectConfigKey(p));
+        } catch (err) {
+            if (err instanceof InvalidConfigError || err instanceof InvalidOptionError) {
+                logger.error(`${err.message}\n`);
+                return -1;
+            }
+
+            logger.error(`${err.stack || err.message}\n`);
+            return -1;
+        }
+
+        if (!affectedProjects.length) {
+            logger.info(`No project is affected by the changes since ${baseRef}.\n`);
+            return 0;
+        }
+
+        commandOptions._affectedProjects = affectedProjects;
+    }
+
+    if (commandOptions.parallel) {
+        if (!watch) {
+            return runParallelBuild(cliOptions, configPath, commandOptions, logger);
+        }
+
+        logger.warn('The --parallel option is ignored in watch mode.\n');
+    }
+
     let webpackConfigs: webpack.Configuration[] = [];
     try {
         webpackConfigs = getWebpackConfigFromAngularBuildConfig(configPath, environment, commandOptions);
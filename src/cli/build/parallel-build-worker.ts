@@ -0,0 +1,23 @@
+import { Logger } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+import { cliBuild } from './cli-build';
+
+const logger = new Logger({
+    logLevel: 'debug',
+    debugPrefix: 'DEBUG:',
+    warnPrefix: 'WARNING:'
+});
+
+// Builds a single project in a child process forked by runParallelBuild
+process.once('message', (cliOptions: CliOptions) => {
+    cliBuild(cliOptions)
+        .then(exitCode => {
+            process.exit(exitCode);
+        })
+        .catch(err => {
+            logger.error(`${err.stack || err.message}\n`);
+            process.exit(-1);
+        });
+});
@@ -0,0 +1,211 @@
+import { fork } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+
+import { InvalidConfigError } from '../../error-models';
+import {
+    getProjectConfigKey,
+    getProjectDependencies,
+    normalizeEnvironment,
+    prepareFilterNames,
+    readAngularBuildConfig,
+    resolveProjectConfigs,
+    sortProjectConfigsByDependencies
+} from '../../helpers';
+import { Logger, colorize } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+interface ParallelBuildTask {
+    name: string;
+    filterName: string;
+    dependencies: string[];
+}
+
+interface ParallelBuildResult {
+    name: string;
+    status: 'success' | 'failed' | 'skipped';
+    duration: number;
+}
+
+export async function runParallelBuild(cliOptions: CliOptions,
+    configPath: string,
+    commandOptions: { [key: string]: any },
+    logger: Logger): Promise<number> {
+    const startTime = cliOptions.startTime || Date.now();
+    const concurrency = typeof commandOptions.parallel === 'number' && commandOptions.parallel > 0
+        ? Math.floor(commandOptions.parallel)
+        : Math.max(os.cpus().length, 1);
+
+    let tasks: ParallelBuildTask[] = [];
+    try {
+        const environment = normalizeEnvironment(
+            commandOptions.env && typeof commandOptions.env === 'object' ? commandOptions.env : {});
+        const filterNames = commandOptions.filter ? prepareFilterNames(commandOptions.filter) : [];
+        const angularBuildConfig = readAngularBuildConfig(configPath, environment);
+        const workspaceRoot = path.dirname(configPath);
+        const projectConfigs = resolveProjectConfigs(angularBuildConfig, environment, []);
+        const affectedProjects: string[] | undefined = commandOptions._affectedProjects;
+        tasks = sortProjectConfigsByDependencies(projectConfigs, filterNames, workspaceRoot)
+            .filter(projectConfig => !affectedProjects || affectedProjects.includes(getProjectConfigKey(projectConfig)))
+            .map(projectConfig => {
+                return {
+                    name: projectConfig.name || getProjectConfigKey(projectConfig),
+                    filterName: getProjectConfigKey(projectConfig),
+                    dependencies: getProjectDependencies(projectConfig, projectConfigs, workspaceRoot)
+                        .map(p => getProjectConfigKey(p))
+                        .filter(key => !affectedProjects || affectedProjects.includes(key))
+                };
+            });
+    } catch (err) {
+        if (err instanceof InvalidConfigError) {
+            logger.error(`${err.message}\n`);
+            return -1;
+        }
+
+        logger.error(`${err.stack || err.message}\n`);
+        return -1;
+    }
+
+    if (tasks.length === 0) {
+        logger.error('No app or lib project is available.\n');
+        return -1;
+    }
+
+    logger.info(`Building ${tasks.length} project(s) with ${concurrency} parallel process(es)\n`);
+
+    // Projects are started once their dependencies are built successfully
+    const results = await runTasks(tasks, concurrency, cliOptions, commandOptions);
+    const hasError = results.some(r => r.status !== 'success');
+
+    const summary = results.map(r => {
+        const statusText = r.status === 'success'
+            ? colorize('success', 'green')
+            : r.status === 'failed' ? colorize('failed', 'red') : colorize('skipped', 'yellow');
+        return `  ${r.name}: ${statusText}${r.status === 'skipped' ? '' : ` [${r.duration}ms]`}`;
+    }).join('\n');
+
+    const duration = Date.now() - startTime;
+    if (hasError) {
+        logger.error(`\nBuild failed in [${duration}ms]\n${summary}\n`);
+    } else {
+        logger.info(`\nBuild all completed in [${duration}ms]\n${summary}\n`);
+    }
+
+    if (commandOptions.beep && process.stdout.isTTY) {
+        process.stdout.write('\x07');
+    }
+
+    return hasError ? -1 : 0;
+}
+
+function runTasks(tasks: ParallelBuildTask[],
+    concurrency: number,
+    cliOptions: CliOptions,
+    commandOptions: { [key: string]: any }): Promise<ParallelBuildResult[]> {
+    const results: { [filterName: string]: ParallelBuildResult } = {};
+    const pendingTasks = [...tasks];
+    let runningCount = 0;
+
+    return new Promise<ParallelBuildResult[]>(resolve => {
+        const schedule = () => {
+            // Skip the tasks whose dependencies are failed or skipped
+            let skippedTask = pendingTasks.find(t => t.dependencies.some(d => results[d] && results[d].status !== 'success'));
+            while (skippedTask) {
+                pendingTasks.splice(pendingTasks.indexOf(skippedTask), 1);
+                results[skippedTask.filterName] = { name: skippedTask.name, status: 'skipped', duration: 0 };
+                skippedTask = pendingTasks.find(t => t.dependencies.some(d => results[d] && results[d].status !== 'success'));
+            }
+
+            let readyTask = pendingTasks.find(t => t.dependencies.every(d => results[d] && results[d].status === 'success'));
+            while (readyTask && runningCount < concurrency) {
+                const task = readyTask;
+                pendingTasks.splice(pendingTasks.indexOf(task), 1);
+                runningCount++;
+
+                runTask(task, cliOptions, commandOptions).then(result => {
+                    results[task.filterName] = result;
+                    runningCount--;
+                    schedule();
+                });
+
+                readyTask = pendingTasks.find(t => t.dependencies.every(d => results[d] && results[d].status === 'success'));
+            }
+
+            if (runningCount === 0) {
+                resolve(tasks.map(t => results[t.filterName] || { name: t.name, status: 'skipped', duration: 0 }));
+            }
+        };
+
+        schedule();
+    });
+}
+
+function runTask(task: ParallelBuildTask,
+    cliOptions: CliOptions,
+    commandOptions: { [key: string]: any }): Promise<ParallelBuildResult> {
+    const startTime = Date.now();
+    const prefix = `[${task.name}] `;
+
+    const childArgs: { [key: string]: any } = {};
+    Object.keys(commandOptions)
+        .filter(key => !key.startsWith('_') && key !== 'parallel' && key !== 'affected')
+        .forEach(key => childArgs[key] = commandOptions[key]);
+    childArgs._ = commandOptions._;
+    childArgs._skipDependencies = true;
+    childArgs.filter = [task.filterName];
+
+    const childCliOptions: CliOptions = {
+        ...cliOptions,
+        args: childArgs,
+        startTime: startTime
+    };
+
+    return new Promise<ParallelBuildResult>(resolve => {
+        const child = fork(require.resolve('./parallel-build-worker'), [], { silent: true });
+        const flushStdout = pipeWithPrefix(child.stdout, process.stdout, prefix);
+        const flushStderr = pipeWithPrefix(child.stderr, process.stderr, prefix);
+
+        let completed = false;
+        const complete = (success: boolean) => {
+            if (completed) {
+                return;
+            }
+
+            completed = true;
+            flushStdout();
+            flushStderr();
+            resolve({
+                name: task.name,
+                status: success ? 'success' : 'failed',
+                duration: Date.now() - startTime
+            });
+        };
+
+        child.once('error', err => {
+            process.stderr.write(`${prefix}${err.stack || err.message}\n`);
+            complete(false);
+        });
+        // 'close' is emitted after the stdio streams are flushed
+        child.once('close', code => complete(code === 0));
+
+        child.send(childCliOptions);
+    });
+}
+
+function pipeWithPrefix(input: NodeJS.ReadableStream, output: NodeJS.WritableStream, prefix: string): () => void {
+    let pending = '';
+    input.setEncoding('utf8');
+    input.on('data', (chunk: string) => {
+        const lines = (pending + chunk).split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(line => output.write(`${prefix}${line}\n`));
+    });
+
+    return () => {
+        if (pending) {
+            output.write(`${prefix}${pending}\n`);
+            pending = '';
+        }
+    };
+}
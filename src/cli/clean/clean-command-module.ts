@@ -0,0 +1,63 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getCleanCommandModule(cliVersion: string): yargs.CommandModule {
+    const cleanCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb clean [options...]`;
+
+    const cleanCommandModule: yargs.CommandModule = {
+        command: 'clean',
+        describe: 'Clean the output of the project(s) using before build clean options',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(cleanCommandUsage)
+                .example('ngb clean', 'Clean the output of the project(s) using angular-build.json file')
+                .example('ngb clean --clean-out-dir', 'Clean the output directory of the project(s)')
+                .example('ngb clean --filter=app1 --dry-run', 'List the paths to be deleted for app1 without deleting')
+                .help('h')
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location.',
+                        type: 'string',
+                    })
+                .option('env',
+                    {
+                        alias: 'environment',
+                        describe: 'Define the build environment.'
+                    })
+                .option('filter',
+                    {
+                        describe: 'Filter config by name(s).',
+                        type: 'array',
+                        array: true
+                    })
+                .option('cleanOutDir',
+                    {
+                        alias: 'clean-out-dir',
+                        describe: 'Clean output directory if before build clean options are not set, same as ngb build --clean.',
+                        type: 'boolean',
+                        boolean: true
+                    })
+                .option('dryRun',
+                    {
+                        alias: 'dry-run',
+                        describe: 'List the paths to be deleted without deleting.',
+                        type: 'boolean',
+                        boolean: true
+                    })
+                .option('verbose',
+                    {
+                        describe: 'Add more details to output logging.',
+                        type: 'boolean',
+                        boolean: true
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return cleanCommandModule;
+}
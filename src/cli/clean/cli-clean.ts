@@ -0,0 +1,118 @@
+import * as path from 'path';
+
+import { InternalError, InvalidConfigError } from '../../error-models';
+import {
+    getDefaultAngularBuildConfigPath,
+    normalizeEnvironment,
+    prepareFilterNames,
+    readAngularBuildConfig,
+    resolveProjectConfigs
+} from '../../helpers';
+import { CleanOptions } from '../../interfaces';
+import { CleanWebpackPlugin } from '../../plugins/clean-webpack-plugin';
+import { Logger, normalizeRelativePath } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+const { exists } = require('fs-extra');
+
+export async function cliClean(cliOptions: CliOptions): Promise<number> {
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(process.cwd(), commandOptions.config);
+    } else {
+        configPath = getDefaultAngularBuildConfigPath(process.cwd());
+    }
+
+    const workspaceRoot = path.dirname(configPath);
+    const dryRun = commandOptions.dryRun ? true : false;
+    const cleanOutDir = commandOptions.cleanOutDir ? true : false;
+
+    const logger = new Logger({
+        logLevel: 'debug',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    if (!await exists(configPath)) {
+        logger.error(`The angular-build.json config file does not exist at ${configPath}. ` +
+            'Please use --config=<your config file> option or make sure angular-build.json is existed in current working directory.\n');
+        return -1;
+    }
+
+    const environment = normalizeEnvironment(
+        commandOptions.env && typeof commandOptions.env === 'object' ? commandOptions.env : {});
+    const filterNames = commandOptions.filter ? prepareFilterNames(commandOptions.filter) : [];
+
+    try {
+        const angularBuildConfig = readAngularBuildConfig(configPath, environment);
+        const projectConfigs = resolveProjectConfigs(angularBuildConfig, environment, filterNames);
+
+        if (!projectConfigs.length) {
+            logger.error('No app or lib project is available.\n');
+            return -1;
+        }
+
+        let totalCount = 0;
+        for (const projectConfig of projectConfigs) {
+            const projectName = projectConfig.name ||
+                `${projectConfig._projectType === 'lib' ? 'libs' : 'apps'}[${projectConfig._index}]`;
+
+            // Same as the before build clean of 'ngb build', the output directory is only cleaned
+            // with 'clean' option or '--clean-out-dir'
+            if (!projectConfig.outputPath ||
+                projectConfig.clean === false ||
+                (!projectConfig.clean && !cleanOutDir)) {
+                logger.debug(`No clean option is available for ${projectName}, skipping`);
+                continue;
+            }
+
+            const cleanOptions: CleanOptions = typeof projectConfig.clean === 'object' ? { ...projectConfig.clean } : {};
+            if (typeof cleanOptions.beforeBuild === 'undefined' && cleanOutDir) {
+                cleanOptions.beforeBuild = {
+                    cleanOutDir: true
+                };
+            }
+
+            const outputPath = path.resolve(workspaceRoot, projectConfig.outputPath);
+            const cleanWebpackPlugin = new CleanWebpackPlugin({
+                ...cleanOptions,
+                workspaceRoot: workspaceRoot,
+                outputPath: outputPath,
+                dryRun: dryRun,
+                loggerOptions: {
+                    logLevel: commandOptions.verbose ? 'debug' : 'info'
+                }
+            });
+
+            const deletedPaths = await cleanWebpackPlugin.cleanBeforeBuild(outputPath);
+            totalCount += deletedPaths.length;
+
+            if (dryRun) {
+                logger.info(`${projectName}: ${deletedPaths.length} path(s) would be deleted${
+                    deletedPaths.map(p => `\n  ${normalizeRelativePath(path.relative(workspaceRoot, p))}`).join('')}\n`);
+            } else {
+                logger.info(`${projectName}: ${deletedPaths.length} path(s) deleted\n`);
+            }
+        }
+
+        if (!dryRun) {
+            logger.info(`Clean completed, ${totalCount} path(s) deleted.\n`);
+        }
+    } catch (err) {
+        if (err instanceof InvalidConfigError || err instanceof InternalError) {
+            logger.error(`${err.message}\n`);
+            return -1;
+        }
+
+        logger.error(`${err.stack || err.message}\n`);
+        return -1;
+    }
+
+    return 0;
+}
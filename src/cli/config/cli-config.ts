@@ -0,0 +1,201 @@
+import * as path from 'path';
+
+import { AppProjectConfigInternal, LibProjectConfigInternal } from '../../build-context';
+import { InvalidConfigError } from '../../error-models';
+import { AppProjectConfigDefaults, LibProjectConfigDefaults } from '../../interfaces';
+import {
+    applyProjectConfigExtends,
+    applyProjectConfigWithEnvironment,
+    filterProjectConfigs,
+    getDefaultAngularBuildConfigPath,
+    normalizeEnvironment,
+    prepareFilterNames,
+    readAngularBuildConfig,
+    resolveProjectConfigStages
+} from '../../helpers';
+import { Logger, normalizeRelativePath } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+const { exists } = require('fs-extra');
+
+type ProjectConfigInternal = AppProjectConfigInternal | LibProjectConfigInternal;
+
+interface ResolvedProjectConfig {
+    label: string;
+    config: { [key: string]: any };
+    sources: { [key: string]: string };
+}
+
+export async function cliConfig(cliOptions: CliOptions): Promise<number> {
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+
+    const logger = new Logger({
+        logLevel: 'debug',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    const action = commandOptions.action || (commandOptions._ && commandOptions._[1]);
+    if (action !== 'print') {
+        logger.error(`Unsupported config action '${action || ''}', the supported action is 'print'.\n`);
+        return -1;
+    }
+
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(process.cwd(), commandOptions.config);
+    } else {
+        configPath = getDefaultAngularBuildConfigPath(process.cwd());
+    }
+
+    if (!await exists(configPath)) {
+        logger.error(`The angular-build.json config file does not exist at ${configPath}. ` +
+            'Please use --config=<your config file> option or make sure angular-build.json is existed in current working directory.\n');
+        return -1;
+    }
+
+    const environment = normalizeEnvironment(
+        commandOptions.env && typeof commandOptions.env === 'object' ? commandOptions.env : {});
+    const filterNames = commandOptions.filter ? prepareFilterNames(commandOptions.filter) : [];
+    const explain = commandOptions.explain ? true : false;
+
+    const resolvedConfigs: ResolvedProjectConfig[] = [];
+    try {
+        const angularBuildConfig = readAngularBuildConfig(configPath, environment);
+        const projectGroups: [ProjectConfigInternal[], 'lib' | 'app'][] = [
+            [angularBuildConfig.libs, 'lib'],
+            [angularBuildConfig.apps, 'app']
+        ];
+
+        projectGroups.forEach(([projects, projectType]) => {
+            const workspaceDefaults = projectType === 'lib' ? angularBuildConfig.libDefaults : angularBuildConfig.appDefaults;
+            filterProjectConfigs(projects, projectType, filterNames).forEach(projectConfig => {
+                resolvedConfigs.push(resolveProjectConfig(projectConfig, projects, workspaceDefaults, environment, explain));
+            });
+        });
+    } catch (err) {
+        if (err instanceof InvalidConfigError) {
+            logger.error(`${err.message}\n`);
+            return -1;
+        }
+
+        logger.error(`${err.stack || err.message}\n`);
+        return -1;
+    }
+
+    if (!resolvedConfigs.length) {
+        logger.error('No app or lib project is available.\n');
+        return -1;
+    }
+
+    const output = explain
+        ? resolvedConfigs.map(r => `// ${r.label}\n${formatExplainedConfig(r.config, r.sources)}`).join('\n\n')
+        : JSON.stringify(resolvedConfigs.length === 1 ? resolvedConfigs[0].config : resolvedConfigs.map(r => r.config),
+            null,
+            2);
+
+    // tslint:disable-next-line:no-console
+    console.log(output);
+
+    return 0;
+}
+
+function resolveProjectConfig(projectConfig: ProjectConfigInternal,
+    projects: ProjectConfigInternal[],
+    workspaceDefaults: AppProjectConfigDefaults | LibProjectConfigDefaults | undefined,
+    environment: { [key: string]: boolean | string },
+    explain: boolean): ResolvedProjectConfig {
+    const groupName = projectConfig._projectType === 'lib' ? 'libs' : 'apps';
+    const label = `${groupName}[${projectConfig._index}]${projectConfig.name ? ` - ${projectConfig.name}` : ''}`;
+
+    const rawConfig = JSON.parse(JSON.stringify(projectConfig)) as ProjectConfigInternal;
+
+    const resolveStages = resolveProjectConfigStages(rawConfig, projects, environment, workspaceDefaults);
+    const extendedConfig = resolveStages.extended;
+    const envAppliedConfig = resolveStages.envApplied;
+    const finalConfig = resolveStages.resolved;
+
+    const sources: { [key: string]: string } = {};
+    if (explain) {
+        const configFileRel = projectConfig._configPath
+            ? normalizeRelativePath(path.relative(process.cwd(), projectConfig._configPath))
+            : '';
+        const ownSource = `${configFileRel} -> ${groupName}[${projectConfig._index}]`;
+        const defaultsSource = `${configFileRel} -> ${projectConfig._projectType === 'lib' ? 'libDefaults' : 'appDefaults'}`;
+        getPublicKeys(rawConfig).forEach(key => sources[key] = ownSource);
+
+        // Extends - the former base configs take precedence over the latter ones
+        const extendNames = !rawConfig.extends
+            ? []
+            : Array.isArray(rawConfig.extends) ? rawConfig.extends : [rawConfig.extends];
+        for (let i = 0; i < extendNames.length; i++) {
+            const partialExtendedConfig = JSON.parse(JSON.stringify(rawConfig)) as ProjectConfigInternal;
+            partialExtendedConfig.extends = extendNames.slice(0, i + 1);
+            applyProjectConfigExtends(partialExtendedConfig, projects, workspaceDefaults);
+
+            // The workspace defaults override the built-in presets
+            const isPreset = extendNames[i].startsWith('ngb:') || extendNames[i].startsWith('angular-build:');
+            getPublicKeys(partialExtendedConfig)
+                .filter(key => !sources[key] && !(isPreset && workspaceDefaults && key in workspaceDefaults))
+                .forEach(key => sources[key] = `extends '${extendNames[i]}'`);
+        }
+
+        // Workspace defaults - lower precedence than the project's own keys and base projects
+        getPublicKeys(extendedConfig)
+            .filter(key => !sources[key])
+            .forEach(key => sources[key] = defaultsSource);
+
+        // Environment overrides - the latter matched keys override the former ones
+        const envOverrides = (extendedConfig.envOverrides || {}) as { [key: string]: any };
+        Object.keys(envOverrides).forEach(overrideKey => {
+            const overrideConfig = envOverrides[overrideKey];
+            if (!overrideConfig || typeof overrideConfig !== 'object') {
+                return;
+            }
+
+            const probeConfig = JSON.parse(JSON.stringify(extendedConfig)) as ProjectConfigInternal;
+            probeConfig.envOverrides = {
+                [overrideKey]: { ...overrideConfig, _explainProbe: true }
+            };
+            applyProjectConfigWithEnvironment(probeConfig, environment);
+
+            if ((probeConfig as any)._explainProbe) {
+                Object.keys(overrideConfig)
+                    .filter(key => key !== 'envOverrides')
+                    .forEach(key => sources[key] = `${sources.envOverrides} -> envOverrides['${overrideKey}']`);
+            }
+        });
+
+        // Defaults
+        getPublicKeys(finalConfig)
+            .filter(key => JSON.stringify((finalConfig as any)[key]) !== JSON.stringify((envAppliedConfig as any)[key]))
+            .forEach(key => sources[key] = 'defaults');
+    }
+
+    const config: { [key: string]: any } = {};
+    getPublicKeys(finalConfig).forEach(key => config[key] = (finalConfig as any)[key]);
+
+    return {
+        label: label,
+        config: config,
+        sources: sources
+    };
+}
+
+function getPublicKeys(projectConfig: ProjectConfigInternal): string[] {
+    return Object.keys(projectConfig).filter(key => !key.startsWith('_') && key !== '$schema');
+}
+
+function formatExplainedConfig(config: { [key: string]: any }, sources: { [key: string]: string }): string {
+    const keys = Object.keys(config);
+    const lines = keys.map((key, i) => {
+        const valueStr = JSON.stringify(config[key], null, 2).replace(/\n/g, '\n  ');
+        return `  ${JSON.stringify(key)}: ${valueStr}${i < keys.length - 1 ? ',' : ''} // ${sources[key] || 'unknown'}`;
+    });
+
+    return `{\n${lines.join('\n')}\n}`;
+}
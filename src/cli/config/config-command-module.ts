@@ -0,0 +1,54 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getConfigCommandModule(cliVersion: string): yargs.CommandModule {
+    const configCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb config print [options...]`;
+
+    const configCommandModule: yargs.CommandModule = {
+        command: 'config [action]',
+        describe: 'Print the resolved project config(s)',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(configCommandUsage)
+                .example('ngb config print --filter=app1 --env.prod', 'Print the resolved config of app1 for production')
+                .example('ngb config print --explain', 'Print the resolved config(s) with the source of each property')
+                .help('h')
+                .positional('action',
+                    {
+                        describe: 'The config action.',
+                        type: 'string',
+                        choices: ['print']
+                    })
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location.',
+                        type: 'string',
+                    })
+                .option('env',
+                    {
+                        alias: 'environment',
+                        describe: 'Define the build environment.'
+                    })
+                .option('filter',
+                    {
+                        describe: 'Filter config by name(s).',
+                        type: 'array',
+                        array: true
+                    })
+                .option('explain',
+                    {
+                        describe: 'Annotate each property with the file and override key it came from.',
+                        type: 'boolean',
+                        boolean: true
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return configCommandModule;
+}
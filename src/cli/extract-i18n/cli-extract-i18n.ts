@@ -0,0 +1,89 @@
+import * as path from 'path';
+
+import { AppProjectConfigInternal } from '../../build-context';
+import { InvalidConfigError, TypescriptCompileError } from '../../error-models';
+import {
+    extractI18nMessages,
+    getAppExtractI18nMessagesOptions,
+    getDefaultAngularBuildConfigPath,
+    normalizeEnvironment,
+    prepareFilterNames,
+    readAngularBuildConfig,
+    resolveProjectConfigs
+} from '../../helpers';
+import { Logger, normalizeRelativePath } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+const { exists } = require('fs-extra');
+
+export async function cliExtractI18n(cliOptions: CliOptions): Promise<number> {
+    const startTime = cliOptions.startTime || Date.now();
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(process.cwd(), commandOptions.config);
+    } else {
+        configPath = getDefaultAngularBuildConfigPath(process.cwd());
+    }
+
+    const workspaceRoot = path.dirname(configPath);
+
+    const logger = new Logger({
+        logLevel: commandOptions.verbose ? 'debug' : 'info',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    if (!await exists(configPath)) {
+        logger.error(`The angular-build.json config file does not exist at ${configPath}. ` +
+            'Please use --config=<your config file> option or make sure angular-build.json is existed in current working directory.\n');
+        return -1;
+    }
+
+    const environment = normalizeEnvironment(
+        commandOptions.env && typeof commandOptions.env === 'object' ? commandOptions.env : {});
+    const filterNames = commandOptions.filter ? prepareFilterNames(commandOptions.filter) : [];
+
+    try {
+        const angularBuildConfig = readAngularBuildConfig(configPath, environment);
+        const appConfigs = resolveProjectConfigs(angularBuildConfig, environment, filterNames)
+            .filter(projectConfig => projectConfig._projectType === 'app') as AppProjectConfigInternal[];
+
+        if (!appConfigs.length) {
+            logger.error('No app project is available.\n');
+            return -1;
+        }
+
+        for (const appConfig of appConfigs) {
+            const projectName = appConfig.name || `apps[${appConfig._index}]`;
+            const extractOptions = getAppExtractI18nMessagesOptions(appConfig, workspaceRoot);
+
+            logger.info(`Extracting i18n messages of ${projectName} with ${
+                normalizeRelativePath(path.relative(workspaceRoot, extractOptions.tsConfigPath))}`);
+
+            const result = await extractI18nMessages(extractOptions);
+            logger.info(`${result.messageIds.length} message(s) written to ${
+                normalizeRelativePath(path.relative(workspaceRoot, result.outFile))}, ${result.newMessageIds.length} new, ${
+                result.removedMessageIds.length} removed${
+                result.newMessageIds.map(id => `\n  + ${id}`).join('')}${
+                result.removedMessageIds.map(id => `\n  - ${id}`).join('')}\n`);
+        }
+    } catch (err) {
+        if (err instanceof InvalidConfigError || err instanceof TypescriptCompileError) {
+            logger.error(`${err.message}\n`);
+            return -1;
+        }
+
+        logger.error(`${err.stack || err.message}\n`);
+        return -1;
+    }
+
+    logger.info(`Extraction completed in [${Date.now() - startTime}ms]\n`);
+
+    return 0;
+}
@@ -0,0 +1,48 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getExtractI18nCommandModule(cliVersion: string): yargs.CommandModule {
+    const extractI18nCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb extract-i18n [options...]`;
+
+    const extractI18nCommandModule: yargs.CommandModule = {
+        command: 'extract-i18n',
+        describe: 'Extract i18n messages of the app project(s) to i18nOutFile',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(extractI18nCommandUsage)
+                .example('ngb extract-i18n', 'Extract i18n messages of the app project(s) using angular-build.json file')
+                .example('ngb extract-i18n --filter=app1', 'Extract i18n messages of app1')
+                .help('h')
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location.',
+                        type: 'string',
+                    })
+                .option('env',
+                    {
+                        alias: 'environment',
+                        describe: 'Define the build environment.'
+                    })
+                .option('filter',
+                    {
+                        describe: 'Filter config by name(s).',
+                        type: 'array',
+                        array: true
+                    })
+                .option('verbose',
+                    {
+                        describe: 'Add more details to output logging.',
+                        type: 'boolean',
+                        boolean: true
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return extractI18nCommandModule;
+}
@@ -4,6 +4,13 @@ import { colorize } from '../utils/colorize';
 
 import { CliOptions } from './cli-options';
 import { getBuildCommandModule } from './build/build-command-module';
+import { getCleanCommandModule } from './clean/clean-command-module';
+import { getConfigCommandModule } from './config/config-command-module';
+import { getExtractI18nCommandModule } from './extract-i18n/extract-i18n-command-module';
+import { getInitCommandModule } from './init/init-command-module';
+import { getInspectCommandModule } from './inspect/inspect-command-module';
+import { getMigrateCommandModule } from './migrate/migrate-command-module';
+import { getServeCommandModule } from './serve/serve-command-module';
 
 function initYargs(cliVersion: string, args?: any[]): yargs.Argv {
     const cliUsage = `\n${colorize(`angular-build ${cliVersion}`, 'white')}\n
@@ -18,6 +25,13 @@ Usage:
     const yargsInstance = yargs
         .usage(cliUsage)
         .example('ngb build', 'Build the project(s) using angular-build.json file')
+        .example('ngb serve', 'Serve the app project with live reload')
+        .example('ngb init', 'Create angular-build.json file for the project')
+        .example('ngb migrate', 'Convert angular.json file into angular-build.json file')
+        .example('ngb config print', 'Print the resolved project config(s)')
+        .example('ngb inspect', 'Print the generated webpack configuration(s)')
+        .example('ngb clean', 'Clean the output of the project(s)')
+        .example('ngb extract-i18n', 'Extract i18n messages of the app project(s)')
         .example('ngb -h', 'Show help')
         .option('h',
             {
@@ -32,7 +46,14 @@ Usage:
                 type: 'boolean',
                 global: false
             })
-        .command(getBuildCommandModule(cliVersion));
+        .command(getBuildCommandModule(cliVersion))
+        .command(getServeCommandModule(cliVersion))
+        .command(getInitCommandModule(cliVersion))
+        .command(getMigrateCommandModule(cliVersion))
+        .command(getConfigCommandModule(cliVersion))
+        .command(getInspectCommandModule(cliVersion))
+        .command(getCleanCommandModule(cliVersion))
+        .command(getExtractI18nCommandModule(cliVersion));
 
     return yargsInstance;
 }
@@ -74,6 +95,58 @@ export default async function(cliOptions: CliOptions): Promise<number> {
         const cliBuild = cliBuildModule.cliBuild;
         return cliBuild({ ...cliOptions, args: commandOptions });
     }
+    if (command === 'serve') {
+        displayAngularBuildVersion(cliOptions);
+
+        // Dynamic require
+        const cliServeModule = await import('./serve/cli-serve');
+        const cliServe = cliServeModule.cliServe;
+        return cliServe({ ...cliOptions, args: commandOptions });
+    }
+    if (command === 'init') {
+        displayAngularBuildVersion(cliOptions);
+
+        // Dynamic require
+        const cliInitModule = await import('./init/cli-init');
+        const cliInit = cliInitModule.cliInit;
+        return cliInit({ ...cliOptions, args: commandOptions });
+    }
+    if (command === 'migrate') {
+        displayAngularBuildVersion(cliOptions);
+
+        // Dynamic require
+        const cliMigrateModule = await import('./migrate/cli-migrate');
+        const cliMigrate = cliMigrateModule.cliMigrate;
+        return cliMigrate({ ...cliOptions, args: commandOptions });
+    }
+    if (command === 'config') {
+        // Dynamic require
+        const cliConfigModule = await import('./config/cli-config');
+        const cliConfig = cliConfigModule.cliConfig;
+        return cliConfig({ ...cliOptions, args: commandOptions });
+    }
+    if (command === 'inspect') {
+        // Dynamic require
+        const cliInspectModule = await import('./inspect/cli-inspect');
+        const cliInspect = cliInspectModule.cliInspect;
+        return cliInspect({ ...cliOptions, args: commandOptions });
+    }
+    if (command === 'clean') {
+        displayAngularBuildVersion(cliOptions);
+
+        // Dynamic require
+        const cliCleanModule = await import('./clean/cli-clean');
+        const cliClean = cliCleanModule.cliClean;
+        return cliClean({ ...cliOptions, args: commandOptions });
+    }
+    if (command === 'extract-i18n') {
+        displayAngularBuildVersion(cliOptions);
+
+        // Dynamic require
+        const cliExtractI18nModule = await import('./extract-i18n/cli-extract-i18n');
+        const cliExtractI18n = cliExtractI18nModule.cliExtractI18n;
+        return cliExtractI18n({ ...cliOptions, args: commandOptions });
+    }
     if (commandOptions.version) {
         return Promise.resolve(cliOptions)
             .then(() => {
@@ -0,0 +1,193 @@
+import { existsSync } from 'fs';
+import * as path from 'path';
+
+import { AppProjectConfig, LibProjectConfig } from '../../interfaces';
+import { Logger, formatValidationError, normalizeRelativePath, readJsonSync, validateSchema } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+const { exists, writeFile } = require('fs-extra');
+
+export async function cliInit(cliOptions: CliOptions): Promise<number> {
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+
+    const workspaceRoot = process.cwd();
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(workspaceRoot, commandOptions.config);
+    } else {
+        configPath = path.resolve(workspaceRoot, 'angular-build.json');
+    }
+
+    const logger = new Logger({
+        logLevel: 'debug',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    if (await exists(configPath) && !commandOptions.force) {
+        logger.error(`The angular-build.json config file already exists at ${configPath}. ` +
+            'Please use --force option to overwrite it.\n');
+        return -1;
+    }
+
+    let packageName = '';
+    const packageJsonPath = path.resolve(workspaceRoot, 'package.json');
+    if (existsSync(packageJsonPath)) {
+        const packageJson = readJsonSync(packageJsonPath);
+        if (packageJson.name) {
+            packageName = packageJson.name;
+        }
+    }
+
+    const projectName: string = commandOptions.name ||
+        (packageName ? packageName.split('/').pop() as string : path.basename(workspaceRoot));
+
+    const appConfig = commandOptions.projectType === 'lib' ? null : detectAppProjectConfig(workspaceRoot, projectName);
+    const libConfig = commandOptions.projectType === 'app' ? null : detectLibProjectConfig(workspaceRoot, projectName);
+
+    if (commandOptions.projectType === 'app' && !appConfig) {
+        logger.error(`No 'main.ts' entry file is found for app project in ${workspaceRoot}.\n`);
+        return -1;
+    }
+    if (commandOptions.projectType === 'lib' && !libConfig) {
+        logger.error(`No 'public_api.ts' entry file is found for lib project in ${workspaceRoot}.\n`);
+        return -1;
+    }
+    if (!appConfig && !libConfig) {
+        logger.error(`No app or lib project is detected in ${workspaceRoot}. ` +
+            'Please use --projectType=<app|lib> option in project root directory.\n');
+        return -1;
+    }
+
+    // Project names must be unique for --filter and dependsOn
+    if (appConfig && libConfig) {
+        libConfig.name = `${projectName}-lib`;
+    }
+
+    const angularBuildConfig: { [key: string]: any } = {
+        $schema: './node_modules/@bizappframework/angular-build/schemas/schema.json#'
+    };
+    if (libConfig) {
+        angularBuildConfig.libs = [libConfig];
+    }
+    if (appConfig) {
+        angularBuildConfig.apps = [appConfig];
+    }
+
+    // Validate schema
+    const schemaFileName = 'schema.json';
+    let schemaPath = '';
+    if (existsSync(path.resolve(__dirname, `../../../schemas/${schemaFileName}`))) {
+        schemaPath = `../../../schemas/${schemaFileName}`;
+    } else if (existsSync(path.resolve(__dirname, `../../../../schemas/${schemaFileName}`))) {
+        schemaPath = `../../../../schemas/${schemaFileName}`;
+    }
+
+    if (!schemaPath) {
+        logger.error("The angular-build schema file doesn't exist.\n");
+        return -1;
+    }
+
+    const schema = require(schemaPath);
+    if (schema.$schema) {
+        delete schema.$schema;
+    }
+
+    const configToValidate = { ...angularBuildConfig };
+    delete configToValidate.$schema;
+    const errors = validateSchema(schema, configToValidate);
+    if (errors.length) {
+        const errMsg = errors.map(err => formatValidationError(schema, err)).join('\n');
+        logger.error(`Invalid configuration.\n\n${errMsg}\n`);
+        return -1;
+    }
+
+    await writeFile(configPath, JSON.stringify(angularBuildConfig, null, 2));
+
+    const projectTypes = [libConfig ? 'lib' : '', appConfig ? 'app' : ''].filter(p => !!p).join(' and ');
+    logger.info(`Created ${normalizeRelativePath(path.relative(workspaceRoot, configPath))} for ${projectTypes} project.\n`);
+
+    return 0;
+}
+
+function detectAppProjectConfig(workspaceRoot: string, projectName: string): AppProjectConfig | null {
+    const root = ['src', '.'].find(r => existsSync(path.resolve(workspaceRoot, r, 'main.ts')));
+    if (!root) {
+        return null;
+    }
+
+    const projectRoot = path.resolve(workspaceRoot, root);
+    const appConfig: AppProjectConfig = {
+        name: projectName,
+        extends: 'ngb:app-browser-default',
+        root: root,
+        entry: 'main.ts'
+    };
+
+    const tsConfig = findFile(projectRoot, workspaceRoot, ['tsconfig.app.json', 'tsconfig.json']);
+    if (tsConfig) {
+        appConfig.tsConfig = tsConfig;
+    }
+
+    if (!existsSync(path.resolve(projectRoot, 'polyfills.ts'))) {
+        appConfig.polyfills = [];
+    }
+
+    const styleFile = ['styles.css', 'styles.scss', 'styles.sass', 'styles.less', 'styles.styl']
+        .find(f => existsSync(path.resolve(projectRoot, f)));
+    appConfig.styles = styleFile ? [styleFile] : [];
+
+    if (!existsSync(path.resolve(projectRoot, 'index.html'))) {
+        appConfig.htmlInject = {};
+    }
+
+    return appConfig;
+}
+
+function detectLibProjectConfig(workspaceRoot: string, projectName: string): LibProjectConfig | null {
+    const entryFileNames = ['public_api.ts', 'public-api.ts'];
+    const root = ['.', 'src']
+        .find(r => entryFileNames.some(f => existsSync(path.resolve(workspaceRoot, r, f))));
+    if (!root) {
+        return null;
+    }
+
+    const projectRoot = path.resolve(workspaceRoot, root);
+    const libConfig: LibProjectConfig = {
+        name: projectName,
+        extends: 'ngb:lib-default',
+        root: root,
+        libraryName: projectName
+    };
+
+    const tsConfig = findFile(projectRoot, workspaceRoot, ['tsconfig-build.json', 'tsconfig.lib.json', 'tsconfig.json']);
+    if (tsConfig) {
+        libConfig.tsTranspilation = {
+            tsConfig: tsConfig
+        };
+    }
+
+    const packageJsonFile = findFile(projectRoot, workspaceRoot, ['package.json']);
+    if (packageJsonFile) {
+        libConfig.packageOptions = {
+            packageJsonFile: packageJsonFile
+        };
+    }
+
+    return libConfig;
+}
+
+function findFile(projectRoot: string, workspaceRoot: string, fileNames: string[]): string | null {
+    for (const searchDir of [projectRoot, workspaceRoot]) {
+        const fileName = fileNames.find(f => existsSync(path.resolve(searchDir, f)));
+        if (fileName) {
+            return normalizeRelativePath(path.relative(projectRoot, path.resolve(searchDir, fileName)));
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,48 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getInitCommandModule(cliVersion: string): yargs.CommandModule {
+    const initCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb init [options...]`;
+
+    const initCommandModule: yargs.CommandModule = {
+        command: 'init',
+        describe: 'Create angular-build.json file for the project in current working directory',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(initCommandUsage)
+                .example('ngb init', 'Detect the project type and create angular-build.json file')
+                .example('ngb init --projectType=lib', 'Create angular-build.json file for library project')
+                .help('h')
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location to create.',
+                        type: 'string',
+                    })
+                .option('projectType',
+                    {
+                        describe: 'The project type to create config for.',
+                        type: 'string',
+                        choices: ['app', 'lib']
+                    })
+                .option('name',
+                    {
+                        describe: 'The project name.',
+                        type: 'string'
+                    })
+                .option('force',
+                    {
+                        describe: 'Overwrite the existing angular-build.json file.',
+                        type: 'boolean',
+                        boolean: true
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return initCommandModule;
+}
@@ -0,0 +1,154 @@
+import * as path from 'path';
+import * as webpack from 'webpack';
+
+import { InvalidConfigError } from '../../error-models';
+import { getDefaultAngularBuildConfigPath } from '../../helpers';
+import { Logger, normalizeRelativePath } from '../../utils';
+import { getWebpackConfigFromAngularBuildConfig } from '../../webpack-configs';
+
+import { CliOptions } from '../cli-options';
+
+const { exists, writeFile } = require('fs-extra');
+
+export async function cliInspect(cliOptions: CliOptions): Promise<number> {
+    const startTime = cliOptions.startTime || Date.now();
+
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+    commandOptions._fromAngularBuildCli = true;
+    commandOptions._cliIsGlobal = cliOptions.cliIsGlobal;
+    commandOptions._cliRootPath = cliOptions.cliRootPath;
+    commandOptions._cliVersion = cliOptions.cliVersion;
+    commandOptions._startTime = startTime;
+
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(process.cwd(), commandOptions.config);
+    } else {
+        configPath = getDefaultAngularBuildConfigPath(process.cwd());
+    }
+
+    const environment =
+        commandOptions.env && typeof commandOptions.env === 'object' ? commandOptions.env : {};
+
+    const logger = new Logger({
+        logLevel: 'debug',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    if (!await exists(configPath)) {
+        logger.error(`The angular-build.json config file does not exist at ${configPath}. ` +
+            'Please use --config=<your config file> option or make sure angular-build.json is existed in current working directory.\n');
+        return -1;
+    }
+
+    let webpackConfigs: webpack.Configuration[] = [];
+    try {
+        webpackConfigs = getWebpackConfigFromAngularBuildConfig(configPath, environment, commandOptions);
+    } catch (err) {
+        if (err instanceof InvalidConfigError) {
+            logger.error(`${err.message}\n`);
+            return -1;
+        }
+
+        logger.error(`${err.stack || err.message}\n`);
+        return -1;
+    }
+
+    if (!webpackConfigs.length) {
+        logger.error('No webpack configuration is generated.\n');
+        return -1;
+    }
+
+    const serializedConfigs = webpackConfigs.map(wpConfig => serializeValue(wpConfig, []));
+    const content = JSON.stringify(serializedConfigs.length === 1 ? serializedConfigs[0] : serializedConfigs, null, 2);
+
+    if (commandOptions.output) {
+        const outputPath = path.isAbsolute(commandOptions.output)
+            ? path.resolve(commandOptions.output)
+            : path.resolve(process.cwd(), commandOptions.output);
+        await writeFile(outputPath, content);
+        logger.info(`Webpack configuration(s) written to ${normalizeRelativePath(path.relative(process.cwd(), outputPath))}.\n`);
+    } else {
+        // tslint:disable-next-line:no-console
+        console.log(content);
+    }
+
+    return 0;
+}
+
+// Converts a webpack configuration into a JSON friendly value.
+// Regexes and functions are converted into their readable string forms,
+// plugins and other class instances into { name, options } objects.
+function serializeValue(value: any, ancestors: any[]): any {
+    if (value == null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+
+    if (value instanceof RegExp) {
+        return value.toString();
+    }
+
+    if (typeof value === 'function') {
+        return `[Function${value.name ? ` ${value.name}` : ''}]`;
+    }
+
+    if (typeof value !== 'object') {
+        return String(value);
+    }
+
+    if (ancestors.includes(value)) {
+        return '[Circular]';
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (Buffer.isBuffer(value)) {
+        return `[Buffer ${value.length} bytes]`;
+    }
+
+    const nextAncestors = [...ancestors, value];
+
+    if (Array.isArray(value)) {
+        return value.map(item => serializeValue(item, nextAncestors));
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === Object.prototype || prototype == null) {
+        return serializeProperties(value, nextAncestors);
+    }
+
+    // Plugins and other class instances, the plugins of this repo keep their options in private _options field
+    const name = value.constructor && value.constructor.name ? value.constructor.name : 'Object';
+    const pluginOptions = value.options && typeof value.options === 'object'
+        ? value.options
+        : value._options && typeof value._options === 'object' ? value._options : null;
+    const options = pluginOptions
+        ? serializeValue(pluginOptions, nextAncestors)
+        : serializeProperties(value, nextAncestors, true);
+
+    return {
+        name: name,
+        options: options
+    };
+}
+
+function serializeProperties(value: { [key: string]: any },
+    ancestors: any[],
+    skipPrivateFields?: boolean): { [key: string]: any } {
+    const serialized: { [key: string]: any } = {};
+    Object.keys(value).forEach(key => {
+        if (typeof value[key] === 'undefined' || (skipPrivateFields && key.startsWith('_'))) {
+            return;
+        }
+
+        serialized[key] = serializeValue(value[key], ancestors);
+    });
+
+    return serialized;
+}
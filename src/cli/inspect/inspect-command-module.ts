@@ -0,0 +1,54 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getInspectCommandModule(cliVersion: string): yargs.CommandModule {
+    const inspectCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb inspect [options...]`;
+
+    const inspectCommandModule: yargs.CommandModule = {
+        command: 'inspect',
+        describe: 'Print the generated webpack configuration(s)',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(inspectCommandUsage)
+                .example('ngb inspect --filter=app1 --env.prod', 'Print the webpack configuration of app1 for production')
+                .example('ngb inspect --output=webpack.prod.json', 'Write the webpack configuration(s) to webpack.prod.json file')
+                .help('h')
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location.',
+                        type: 'string',
+                    })
+                .option('forceUseLocalCli',
+                    {
+                        describe: 'To force use locally installed cli.',
+                        type: 'boolean',
+                        boolean: true
+                    })
+                .option('env',
+                    {
+                        alias: 'environment',
+                        describe: 'Define the build environment.'
+                    })
+                .option('filter',
+                    {
+                        describe: 'Filter config by name(s).',
+                        type: 'array',
+                        array: true
+                    })
+                .option('output',
+                    {
+                        alias: 'o',
+                        describe: 'The file location to write the webpack configuration(s) to, default to stdout.',
+                        type: 'string'
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return inspectCommandModule;
+}
@@ -0,0 +1,370 @@
+import { existsSync } from 'fs';
+import * as path from 'path';
+
+import { applyAppConfigCompat, applyLibConfigCompat } from '../../helpers';
+import { AppProjectConfig, LibProjectConfig } from '../../interfaces';
+import { Logger, formatValidationError, normalizeRelativePath, readJsonSync, validateSchema } from '../../utils';
+
+import { CliOptions } from '../cli-options';
+
+const { exists, writeFile } = require('fs-extra');
+
+interface UntranslatedOption {
+    optionPath: string;
+    reason: string;
+}
+
+interface ConvertContext {
+    workspaceRoot: string;
+    projectRoot: string;
+    builder: string;
+    allowedKeys: string[];
+    untranslatedOptions: UntranslatedOption[];
+}
+
+const appBuilders = [
+    '@angular-devkit/build-angular:browser',
+    '@angular-devkit/build-angular:server',
+    '@bizappframework/angular-build:app'
+];
+
+const libBuilders = [
+    '@angular-devkit/build-ng-packagr:build',
+    '@bizappframework/angular-build:lib'
+];
+
+const buildOptionKeys = [
+    'environment',
+    'filter',
+    'logLevel',
+    'progress',
+    'cleanOutDir',
+    'watch',
+    'watchOptions',
+    'beep',
+    'verbose',
+    'poll'
+];
+
+export async function cliMigrate(cliOptions: CliOptions): Promise<number> {
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+
+    let workspacePath = '';
+    if (commandOptions.workspace) {
+        workspacePath = path.isAbsolute(commandOptions.workspace)
+            ? path.resolve(commandOptions.workspace)
+            : path.resolve(process.cwd(), commandOptions.workspace);
+    } else {
+        workspacePath = path.resolve(process.cwd(), 'angular.json');
+    }
+
+    const workspaceRoot = path.dirname(workspacePath);
+
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(process.cwd(), commandOptions.config);
+    } else {
+        configPath = path.resolve(workspaceRoot, 'angular-build.json');
+    }
+
+    const logger = new Logger({
+        logLevel: 'debug',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    if (!await exists(workspacePath)) {
+        logger.error(`The angular.json workspace file does not exist at ${workspacePath}. ` +
+            'Please use --workspace=<your angular.json file> option or make sure angular.json is existed in current working directory.\n');
+        return -1;
+    }
+
+    if (await exists(configPath) && !commandOptions.force) {
+        logger.error(`The angular-build.json config file already exists at ${configPath}. ` +
+            'Please use --force option to overwrite it.\n');
+        return -1;
+    }
+
+    let workspaceJson: any = null;
+    try {
+        workspaceJson = readJsonSync(workspacePath);
+    } catch (jsonErr) {
+        logger.error(`Invalid angular.json workspace file, error: ${jsonErr.message || jsonErr}.\n`);
+        return -1;
+    }
+
+    const schema = loadSchema('schema.json');
+    const appSchema = loadSchema('app-project-config-schema.json');
+    const libSchema = loadSchema('lib-project-config-schema.json');
+    if (!schema || !appSchema || !libSchema) {
+        logger.error("The angular-build schema file doesn't exist.\n");
+        return -1;
+    }
+
+    const untranslatedOptions: UntranslatedOption[] = [];
+    const apps: AppProjectConfig[] = [];
+    const libs: LibProjectConfig[] = [];
+    const projects: { [key: string]: any } = workspaceJson.projects || {};
+
+    Object.keys(projects).forEach(projectName => {
+        const project = projects[projectName] || {};
+        const targets: { [key: string]: any } = project.architect || project.targets || {};
+        const projectRoot = normalizeRelativePath(project.root || '');
+
+        Object.keys(targets)
+            .filter(targetName => targetName === 'build' || targetName === 'server')
+            .forEach(targetName => {
+                const target = targets[targetName] || {};
+                const targetPath = `projects.${projectName}.architect.${targetName}`;
+                const builder: string = target.builder || '';
+                const projectType = appBuilders.includes(builder)
+                    ? 'app'
+                    : libBuilders.includes(builder) ? 'lib' : null;
+
+                if (!projectType) {
+                    untranslatedOptions.push({
+                        optionPath: `${targetPath}.builder`,
+                        reason: `The '${builder}' builder is not supported.`
+                    });
+                    return;
+                }
+
+                const convertContext: ConvertContext = {
+                    workspaceRoot: workspaceRoot,
+                    projectRoot: projectRoot,
+                    builder: builder,
+                    allowedKeys: Object.keys((projectType === 'app' ? appSchema : libSchema).properties || {}),
+                    untranslatedOptions: untranslatedOptions
+                };
+
+                const projectConfig: { [key: string]: any } = {
+                    name: targetName === 'build' ? projectName : `${projectName}-${targetName}`,
+                    root: projectRoot,
+                    ...convertOptions(target.options || {}, projectType, `${targetPath}.options`, convertContext)
+                };
+
+                if (builder === '@angular-devkit/build-angular:server') {
+                    projectConfig.platformTarget = 'node';
+                }
+
+                const configurations: { [key: string]: any } = target.configurations || {};
+                if (Object.keys(configurations).length) {
+                    const envOverrides: { [key: string]: any } = {};
+                    Object.keys(configurations).forEach(configurationName => {
+                        envOverrides[configurationName] = convertOptions(configurations[configurationName] || {},
+                            projectType,
+                            `${targetPath}.configurations.${configurationName}`,
+                            convertContext);
+                    });
+                    projectConfig.envOverrides = envOverrides;
+                }
+
+                if (projectType === 'app') {
+                    apps.push(projectConfig as AppProjectConfig);
+                } else {
+                    libs.push(projectConfig as LibProjectConfig);
+                }
+            });
+    });
+
+    if (!apps.length && !libs.length) {
+        logger.error(`No app or lib project is available to migrate in ${workspacePath}.\n`);
+        return -1;
+    }
+
+    const angularBuildConfig: { [key: string]: any } = {};
+    if (libs.length) {
+        angularBuildConfig.libs = libs;
+    }
+    if (apps.length) {
+        angularBuildConfig.apps = apps;
+    }
+
+    const errors = validateSchema(schema, angularBuildConfig);
+    if (errors.length) {
+        const errMsg = errors.map(err => formatValidationError(schema, err)).join('\n');
+        logger.error(`Invalid configuration.\n\n${errMsg}\n`);
+        return -1;
+    }
+
+    await writeFile(configPath,
+        JSON.stringify({
+                $schema: './node_modules/@bizappframework/angular-build/schemas/schema.json#',
+                ...angularBuildConfig
+            },
+            null,
+            2));
+
+    if (untranslatedOptions.length) {
+        logger.warn(`The following options can't be translated:\n${
+            untranslatedOptions.map(o => `  - ${o.optionPath}: ${o.reason}`).join('\n')}\n`);
+    }
+
+    logger.info(`Created ${normalizeRelativePath(path.relative(process.cwd(), configPath))} with ${
+        apps.length} app(s) and ${libs.length} lib(s).\n`);
+
+    return 0;
+}
+
+function convertOptions(rawOptions: { [key: string]: any },
+    projectType: 'app' | 'lib',
+    optionPath: string,
+    convertContext: ConvertContext): { [key: string]: any } {
+    const options = JSON.parse(JSON.stringify(rawOptions));
+    const builder = convertContext.builder;
+
+    if (builder === '@angular-devkit/build-ng-packagr:build') {
+        convertNgPackagrOptions(options, optionPath, convertContext);
+    } else if (projectType === 'app') {
+        if (!builder.startsWith('@bizappframework/')) {
+            convertAngularCliAppOptionPaths(options, convertContext);
+        }
+
+        if (options.bundleDependencies) {
+            if (options.bundleDependencies === 'none') {
+                options.nodeModulesAsExternals = true;
+            }
+            delete options.bundleDependencies;
+        }
+
+        applyAppConfigCompat(options);
+    } else {
+        applyLibConfigCompat(options);
+    }
+
+    Object.keys(options)
+        .filter(key => !convertContext.allowedKeys.includes(key))
+        .forEach(key => {
+            convertContext.untranslatedOptions.push({
+                optionPath: `${optionPath}.${key}`,
+                reason: buildOptionKeys.includes(key)
+                    ? 'Use the command line option instead.'
+                    : 'No equivalent option.'
+            });
+            delete options[key];
+        });
+
+    return options;
+}
+
+function convertAngularCliAppOptionPaths(options: { [key: string]: any }, convertContext: ConvertContext): void {
+    const toRootRelative = (p: string) => normalizeRelativePath(
+        path.relative(path.resolve(convertContext.workspaceRoot, convertContext.projectRoot),
+            path.resolve(convertContext.workspaceRoot, p)));
+
+    ['main', 'index', 'tsConfig'].forEach(key => {
+        if (options[key] && typeof options[key] === 'string') {
+            options[key] = toRootRelative(options[key]);
+        }
+    });
+
+    if (options.polyfills) {
+        options.polyfills = Array.isArray(options.polyfills)
+            ? options.polyfills.map(toRootRelative)
+            : toRootRelative(options.polyfills);
+    }
+
+    ['styles', 'scripts'].forEach(key => {
+        if (options[key] && Array.isArray(options[key])) {
+            options[key] = (options[key] as any[]).map(entry => {
+                if (typeof entry === 'string') {
+                    return toRootRelative(entry);
+                }
+
+                return {
+                    ...entry,
+                    input: Array.isArray(entry.input)
+                        ? entry.input.map(toRootRelative)
+                        : toRootRelative(entry.input)
+                };
+            });
+        }
+    });
+
+    if (options.assets && Array.isArray(options.assets)) {
+        options.copy = (options.assets as any[]).map(assetEntry => {
+            if (typeof assetEntry === 'string') {
+                return toRootRelative(assetEntry);
+            }
+
+            const assetCopyEntry: { [key: string]: any } = {
+                from: normalizeRelativePath(path.join(toRootRelative(assetEntry.input), assetEntry.glob || ''))
+            };
+            const to = normalizeRelativePath((assetEntry.output || '').replace(/^\//, ''));
+            if (to) {
+                assetCopyEntry.to = to;
+            }
+
+            return assetCopyEntry;
+        });
+        delete options.assets;
+    }
+
+    if (options.fileReplacements && Array.isArray(options.fileReplacements)) {
+        options.fileReplacements = (options.fileReplacements as any[]).map(entry => {
+            return {
+                replace: toRootRelative(entry.replace || entry.src),
+                with: toRootRelative(entry.with || entry.replaceWith)
+            };
+        });
+    }
+}
+
+function convertNgPackagrOptions(options: { [key: string]: any }, optionPath: string, convertContext: ConvertContext): void {
+    const projectRootAbs = path.resolve(convertContext.workspaceRoot, convertContext.projectRoot);
+
+    if (options.tsConfig) {
+        options.tsTranspilation = {
+            tsConfig: normalizeRelativePath(
+                path.relative(projectRootAbs, path.resolve(convertContext.workspaceRoot, options.tsConfig)))
+        };
+        delete options.tsConfig;
+    }
+
+    if (options.project) {
+        const ngPackagePath = path.resolve(convertContext.workspaceRoot, options.project);
+        if (existsSync(ngPackagePath)) {
+            const ngPackageJson = readJsonSync(ngPackagePath);
+            if (ngPackageJson.dest) {
+                options.outputPath = normalizeRelativePath(
+                    path.relative(convertContext.workspaceRoot, path.resolve(path.dirname(ngPackagePath), ngPackageJson.dest)));
+            }
+        }
+
+        const packageJsonPath = path.resolve(projectRootAbs, 'package.json');
+        if (existsSync(packageJsonPath)) {
+            options.packageOptions = {
+                packageJsonFile: 'package.json'
+            };
+        }
+
+        convertContext.untranslatedOptions.push({
+            optionPath: `${optionPath}.project`,
+            reason: "The ng-packagr options except 'dest' are not translated, configure 'bundles' instead."
+        });
+        delete options.project;
+    }
+}
+
+function loadSchema(schemaFileName: string): any {
+    let schemaPath = '';
+    if (existsSync(path.resolve(__dirname, `../../../schemas/${schemaFileName}`))) {
+        schemaPath = `../../../schemas/${schemaFileName}`;
+    } else if (existsSync(path.resolve(__dirname, `../../../../schemas/${schemaFileName}`))) {
+        schemaPath = `../../../../schemas/${schemaFileName}`;
+    }
+
+    if (!schemaPath) {
+        return null;
+    }
+
+    const schema = require(schemaPath);
+    if (schema.$schema) {
+        delete schema.$schema;
+    }
+
+    return schema;
+}
@@ -0,0 +1,42 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getMigrateCommandModule(cliVersion: string): yargs.CommandModule {
+    const migrateCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb migrate [options...]`;
+
+    const migrateCommandModule: yargs.CommandModule = {
+        command: 'migrate',
+        describe: 'Convert angular.json workspace file into angular-build.json file',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(migrateCommandUsage)
+                .example('ngb migrate', 'Convert angular.json file in current working directory into angular-build.json file')
+                .help('h')
+                .option('workspace',
+                    {
+                        alias: 'w',
+                        describe: 'The angular.json file location.',
+                        type: 'string',
+                    })
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location to create.',
+                        type: 'string',
+                    })
+                .option('force',
+                    {
+                        describe: 'Overwrite the existing angular-build.json file.',
+                        type: 'boolean',
+                        boolean: true
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return migrateCommandModule;
+}
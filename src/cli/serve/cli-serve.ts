@@ -0,0 +1,126 @@
+import * as path from 'path';
+import * as webpack from 'webpack';
+
+import { InvalidConfigError } from '../../error-models';
+import { getDefaultAngularBuildConfigPath } from '../../helpers';
+import { Logger } from '../../utils';
+import { getWebpackConfigFromAngularBuildConfig } from '../../webpack-configs';
+
+import { CliOptions } from '../cli-options';
+
+const { exists } = require('fs-extra');
+const WebpackDevServer = require('webpack-dev-server');
+
+export async function cliServe(cliOptions: CliOptions): Promise<number> {
+    const startTime = cliOptions.startTime || Date.now();
+
+    const commandOptions: { [key: string]: any } =
+        cliOptions.args && typeof cliOptions.args === 'object' ? cliOptions.args : {};
+    commandOptions._fromAngularBuildCli = true;
+    commandOptions._cliIsGlobal = cliOptions.cliIsGlobal;
+    commandOptions._cliRootPath = cliOptions.cliRootPath;
+    commandOptions._cliVersion = cliOptions.cliVersion;
+    commandOptions._startTime = startTime;
+    commandOptions._devServer = true;
+    commandOptions.watch = true;
+
+    if (!commandOptions.filter || !commandOptions.filter.length) {
+        commandOptions.filter = ['apps'];
+    }
+
+    let configPath = '';
+    if (commandOptions.config) {
+        configPath = path.isAbsolute(commandOptions.config)
+            ? path.resolve(commandOptions.config)
+            : path.resolve(process.cwd(), commandOptions.config);
+    } else {
+        configPath = getDefaultAngularBuildConfigPath(process.cwd());
+    }
+
+    const environment =
+        commandOptions.env && typeof commandOptions.env === 'object' ? commandOptions.env : {};
+    const host: string = commandOptions.host || 'localhost';
+    const port: number = commandOptions.port != null ? Number(commandOptions.port) : 4200;
+    const liveReload = commandOptions.liveReload !== false;
+
+    const logger = new Logger({
+        logLevel: 'debug',
+        debugPrefix: 'DEBUG:',
+        warnPrefix: 'WARNING:'
+    });
+
+    if (!await exists(configPath)) {
+        logger.error(`The angular-build.json config file does not exist at ${configPath}. ` +
+            'Please use --config=<your config file> option or make sure angular-build.json is existed in current working directory.\n');
+        return -1;
+    }
+
+    let webpackConfigs: webpack.Configuration[] = [];
+    try {
+        webpackConfigs = getWebpackConfigFromAngularBuildConfig(configPath, environment, commandOptions);
+    } catch (err1) {
+        if (err1 instanceof InvalidConfigError) {
+            logger.error(`${err1.message}\n`);
+            return -1;
+        }
+
+        logger.error(`${err1.stack || err1.message}\n`);
+        return -1;
+    }
+
+    // Only app project configs contain dev server options
+    const appWebpackConfigs = webpackConfigs.filter(c => c.devServer);
+    if (appWebpackConfigs.length === 0) {
+        logger.error('No app project is available to serve.\n');
+        return -1;
+    }
+    if (appWebpackConfigs.length > 1) {
+        logger.error('Multiple app projects are available, use --filter=<app name> option to select the app to serve.\n');
+        return -1;
+    }
+
+    const wpConfig = appWebpackConfigs[0];
+    const devServerOptions = {
+        ...wpConfig.devServer,
+        host: host,
+        port: port,
+        inline: liveReload
+    };
+
+    // Add the dev server client to the entries for live reload
+    WebpackDevServer.addDevServerEntrypoints(wpConfig, devServerOptions);
+
+    try {
+        const webpackCompiler = webpack(wpConfig);
+        const server = new WebpackDevServer(webpackCompiler, devServerOptions);
+
+        await new Promise((resolve, reject) => {
+            server.listen(port, host, (err: Error) => {
+                if (err) {
+                    return reject(err);
+                }
+
+                resolve();
+            });
+        });
+
+        logger.info(`\nAngular build dev server is listening on http://${host}:${port}${devServerOptions.publicPath || '/'}\n`);
+
+        return await new Promise<number>(resolve => {
+            const closeServer = () => {
+                server.close(() => {
+                    resolve(0);
+                });
+            };
+
+            process.once('SIGINT', closeServer);
+            process.once('SIGTERM', closeServer);
+        });
+    } catch (err) {
+        if (err) {
+            logger.error(`\n${err.stack || err.message}\n`);
+        }
+
+        return -1;
+    }
+}
@@ -0,0 +1,79 @@
+import * as yargs from 'yargs';
+
+import { colorize } from '../../utils/colorize';
+
+export function getServeCommandModule(cliVersion: string): yargs.CommandModule {
+    const serveCommandUsage = `${colorize(`angular-build ${cliVersion}`, 'white')}\n
+Usage:
+  ngb serve [options...]`;
+
+    const serveCommandModule: yargs.CommandModule = {
+        command: 'serve',
+        describe: 'Build the app project in memory and serve with live reload',
+        builder: (yargv: yargs.Argv) => {
+            const yargvObj = yargv
+                .usage(serveCommandUsage)
+                .example('ngb serve', 'Serve the app project using angular-build.json file')
+                .example('ngb serve --filter=app1 --port=5000', 'Serve the app project named app1 on port 5000')
+                .help('h')
+                .option('config',
+                    {
+                        alias: 'c',
+                        describe: 'The angular-build.json file location.',
+                        type: 'string',
+                    })
+                .option('forceUseLocalCli',
+                    {
+                        describe: 'To force use locally installed cli.',
+                        type: 'boolean',
+                        boolean: true
+                    })
+                .option('env',
+                    {
+                        alias: 'environment',
+                        describe: 'Define the build environment.'
+                    })
+                .option('filter',
+                    {
+                        describe: 'Filter app config by name.',
+                        type: 'array',
+                        array: true
+                    })
+                .option('host',
+                    {
+                        describe: 'Host to listen on.',
+                        type: 'string',
+                        default: 'localhost'
+                    })
+                .option('port',
+                    {
+                        describe: 'Port to listen on.',
+                        type: 'number',
+                        default: 4200
+                    })
+                .option('liveReload',
+                    {
+                        describe: 'Reload the page on change.',
+                        type: 'boolean',
+                        boolean: true,
+                        default: true
+                    })
+                .option('progress',
+                    {
+                        describe: 'Display compilation progress in percentage.',
+                        type: 'boolean',
+                        boolean: true
+                    })
+                .option('verbose',
+                    {
+                        describe: 'Add more details to output logging.',
+                        type: 'boolean',
+                        boolean: true
+                    });
+
+            return yargvObj;
+        },
+        handler: (null as any)
+    };
+    return serveCommandModule;
+}
@@ -1,3 +1,5 @@
+import { BuildOptionInternal } from '../build-context';
+
 // TODO: to review
 export function isFromWebpackCli(): boolean {
     return process.argv.length >= 2 && /(\\|\/)?webpack(\.js)?$/i.test(process.argv[1]);
@@ -12,6 +14,10 @@ export function isFromWebpackDevServer(): boolean {
     return process.argv.length >= 2 && /(\\|\/)?webpack-dev-server(\.js)?$/i.test(process.argv[1]);
 }
 
+export function isDevServerBuild(buildOptions: BuildOptionInternal): boolean {
+    return isFromWebpackDevServer() || buildOptions._devServer ? true : false;
+}
+
 export function isFromAngularCliDevServer(): boolean {
     return process.argv.length >= 3 &&
         /(\\|\/)?ng(\.js)?$/i.test(process.argv[1]) &&
@@ -0,0 +1,200 @@
+import { existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as ts from 'typescript';
+
+import { AppProjectConfigInternal } from '../build-context';
+import { InvalidConfigError, TypescriptCompileError } from '../error-models';
+
+const spawn = require('cross-spawn');
+const { ensureDir, readFile, remove, writeFile } = require('fs-extra');
+
+export interface ExtractI18nMessagesOptions {
+    /**
+     * Absolute path for the tsconfig file.
+     */
+    tsConfigPath: string;
+    /**
+     * Absolute path for the messages output file.
+     */
+    outFile: string;
+    format: string;
+    locale?: string;
+}
+
+export interface ExtractI18nMessagesResult {
+    outFile: string;
+    messageIds: string[];
+    newMessageIds: string[];
+    removedMessageIds: string[];
+}
+
+export function getAppExtractI18nMessagesOptions(appConfig: AppProjectConfigInternal,
+    workspaceRoot: string): ExtractI18nMessagesOptions {
+    const projectRoot = path.resolve(workspaceRoot, appConfig.root || '');
+    const projectName = appConfig.name || `apps[${appConfig._index}]`;
+
+    const tsConfigPath = [
+        path.resolve(projectRoot, appConfig.tsConfig || 'tsconfig.json'),
+        appConfig.tsConfig ? '' : path.resolve(workspaceRoot, 'tsconfig.json')
+    ].find(p => !!p && existsSync(p));
+    if (!tsConfigPath) {
+        throw new InvalidConfigError(
+            `The tsconfig file for '${projectName}' is not found, please set the 'tsConfig' option in your configuration file - ${
+            appConfig._configPath}.`);
+    }
+
+    const format = (appConfig.i18nOutFormat || 'xlf').toLowerCase();
+    const ext = getI18nFileExtension(format);
+    if (!ext) {
+        throw new InvalidConfigError(
+            `Unsupported i18n format '${appConfig.i18nOutFormat}' for '${projectName}', supported formats are xlf, xlf2 and xmb.`);
+    }
+
+    return {
+        tsConfigPath: tsConfigPath,
+        outFile: path.resolve(projectRoot, appConfig.i18nOutFile || `messages.${ext}`),
+        format: format,
+        locale: appConfig.i18nLocale
+    };
+}
+
+export async function extractI18nMessages(options: ExtractI18nMessagesOptions): Promise<ExtractI18nMessagesResult> {
+    const format = options.format.toLowerCase();
+    const tempOutFile = path.resolve(os.tmpdir(), `ngb-i18n-${process.pid}-${Date.now()}.${getI18nFileExtension(format)}`);
+
+    // The ng-xi18n '--outFile' and '--locale' arguments conflict with the typescript compiler options,
+    // so the i18n options are passed to the worker together with the angularCompilerOptions of the tsconfig files
+    const angularCompilerOptions = {
+        ...readAngularCompilerOptions(options.tsConfigPath),
+        i18nOutFile: tempOutFile,
+        i18nOutFormat: format,
+        i18nOutLocale: options.locale
+    };
+
+    const commandArgs = [
+        require.resolve('./extract-i18n-worker'),
+        getCompilerCliMainPath(path.dirname(options.tsConfigPath)),
+        options.tsConfigPath,
+        JSON.stringify(angularCompilerOptions)
+    ];
+
+    await new Promise((resolve, reject) => {
+        const errors: string[] = [];
+        const child = spawn(process.execPath, commandArgs, {});
+        child.stderr.on('data', (data: any) => errors.push(data.toString().trim()));
+        child.on('error', (err: Error) => reject(err));
+        child.on('exit',
+            (exitCode: number) => {
+                if (exitCode === 0) {
+                    resolve();
+                } else {
+                    reject(new TypescriptCompileError(errors.join('\n')));
+                }
+            });
+    });
+
+    let content: string = await readFile(tempOutFile, 'utf-8');
+    await remove(tempOutFile);
+
+    const messages = getI18nMessages(content, format);
+    const messageIds = Object.keys(messages);
+    let newMessageIds: string[] = [];
+    let removedMessageIds: string[] = [];
+
+    if (existsSync(options.outFile)) {
+        const existingContent: string = await readFile(options.outFile, 'utf-8');
+        const existingMessages = getI18nMessages(existingContent, format);
+        newMessageIds = messageIds.filter(id => !(id in existingMessages));
+        removedMessageIds = Object.keys(existingMessages).filter(id => !(id in messages));
+
+        // Keep the translations of existing messages
+        content = content.replace(getI18nMessagePattern(format), (unit: string, id: string) => {
+            const existingTarget = existingMessages[id] ? existingMessages[id].match(/<target\b[\s\S]*?(<\/target>|\/>)/) : null;
+            if (!existingTarget || /<target\b/.test(unit)) {
+                return unit;
+            }
+
+            return unit.replace(/([ \t]*)(<source\b[\s\S]*?<\/source>)/, (_: string, indent: string, source: string) =>
+                `${indent}${source}\n${indent}${existingTarget[0]}`);
+        });
+    } else {
+        newMessageIds = [...messageIds];
+    }
+
+    await ensureDir(path.dirname(options.outFile));
+    await writeFile(options.outFile, content);
+
+    return {
+        outFile: options.outFile,
+        messageIds: messageIds,
+        newMessageIds: newMessageIds,
+        removedMessageIds: removedMessageIds
+    };
+}
+
+function getCompilerCliMainPath(basePath: string): string {
+    // Prefer the compiler-cli installed in the workspace
+    try {
+        return require.resolve('@angular/compiler-cli/src/main', { paths: [basePath] });
+    } catch (err) {
+        return require.resolve('@angular/compiler-cli/src/main');
+    }
+}
+
+// The angularCompilerOptions are not inherited through 'extends' by the compiler-cli, so they are merged here
+function readAngularCompilerOptions(tsConfigPath: string): { [key: string]: any } {
+    const jsonConfigFile = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+    if (jsonConfigFile.error) {
+        throw new InvalidConfigError(ts.flattenDiagnosticMessageText(jsonConfigFile.error.messageText, '\n'));
+    }
+
+    const config = jsonConfigFile.config || {};
+    let baseAngularCompilerOptions: { [key: string]: any } = {};
+    if (typeof config.extends === 'string' && /^\.{0,2}[\/\\]|^[a-zA-Z]:/.test(config.extends)) {
+        const baseTsConfigPath = path.resolve(path.dirname(tsConfigPath), config.extends);
+        baseAngularCompilerOptions = readAngularCompilerOptions(
+            !existsSync(baseTsConfigPath) && !baseTsConfigPath.endsWith('.json') ? `${baseTsConfigPath}.json` : baseTsConfigPath);
+    }
+
+    return { ...baseAngularCompilerOptions, ...config.angularCompilerOptions };
+}
+
+function getI18nFileExtension(format: string): string {
+    switch (format.toLowerCase()) {
+        case 'xmb':
+            return 'xmb';
+        case 'xlf':
+        case 'xliff':
+        case 'xlf2':
+        case 'xliff2':
+            return 'xlf';
+        default:
+            return '';
+    }
+}
+
+function getI18nMessagePattern(format: string): RegExp {
+    switch (format) {
+        case 'xmb':
+            return /<msg\b[^>]*\bid="([^"]+)"[^>]*>[\s\S]*?<\/msg>/g;
+        case 'xlf2':
+        case 'xliff2':
+            return /<unit\b[^>]*\bid="([^"]+)"[^>]*>[\s\S]*?<\/unit>/g;
+        default:
+            return /<trans-unit\b[^>]*\bid="([^"]+)"[^>]*>[\s\S]*?<\/trans-unit>/g;
+    }
+}
+
+function getI18nMessages(content: string, format: string): { [id: string]: string } {
+    const messages: { [id: string]: string } = {};
+    const pattern = getI18nMessagePattern(format);
+    let match = pattern.exec(content);
+    while (match) {
+        messages[match[1]] = match[0];
+        match = pattern.exec(content);
+    }
+
+    return messages;
+}
@@ -0,0 +1,18 @@
+import * as path from 'path';
+
+// Extracts the i18n messages with the compiler-cli in a child process spawned by extractI18nMessages.
+// The original tsconfig file is used as is, so that the file paths in the messages are relative to its directory,
+// and the i18n options are passed in as angularCompilerOptions, i.e.
+// node extract-i18n-worker.js <compiler-cli main path> <tsconfig path> <angularCompilerOptions json>
+const [compilerCliMainPath, tsConfigPath, angularCompilerOptionsJson] = process.argv.slice(2);
+
+const compilerCliMain = require(compilerCliMainPath);
+const { EmitFlags } = require(path.resolve(path.dirname(compilerCliMainPath), 'transformers/api'));
+
+const config = compilerCliMain.readCommandLineAndConfiguration(['-p', tsConfigPath]);
+config.options = { ...config.options, ...JSON.parse(angularCompilerOptionsJson) };
+config.emitFlags = EmitFlags.I18nBundle;
+
+process.exitCode = compilerCliMain.main(['-p', tsConfigPath],
+    (message: string) => process.stderr.write(`${message}\n`),
+    config);
@@ -0,0 +1,41 @@
+import { AppProjectConfigInternal, LibProjectConfigInternal } from '../build-context';
+
+export function prepareFilterNames(filter: string | string[]): string[] {
+    const filterNames: string[] = [];
+
+    if (filter &&
+        (Array.isArray(filter) || typeof filter === 'string')) {
+        if (Array.isArray(filter)) {
+            (filter as string[]).forEach(filterName => {
+                if (filterName && filterName.trim() && !filterNames.includes(filterName.trim())) {
+                    filterNames.push(filterName.trim());
+                }
+            });
+        } else if (filter && filter.trim()) {
+            filterNames.push(filter);
+        }
+    }
+
+    return filterNames;
+}
+
+export function filterProjectConfigs<TConfig extends AppProjectConfigInternal | LibProjectConfigInternal>(
+    projectConfigs: TConfig[],
+    projectType: 'app' | 'lib',
+    filterNames: string[]): TConfig[] {
+    const groupName = projectType === 'lib' ? 'libs' : 'apps';
+    const otherGroupName = projectType === 'lib' ? 'apps' : 'libs';
+
+    if (filterNames.length &&
+        filterNames.filter(configName => configName === otherGroupName).length === filterNames.length) {
+        return [];
+    }
+
+    return projectConfigs
+        .filter(projectConfig =>
+            (filterNames.length === 0 ||
+                (filterNames.length > 0 &&
+                    (filterNames.includes(groupName) ||
+                        filterNames.includes(`${groupName}[${projectConfig._index}]`) ||
+                        (projectConfig.name && filterNames.includes(projectConfig.name))))));
+}
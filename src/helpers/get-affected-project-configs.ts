@@ -0,0 +1,70 @@
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+
+import { AppProjectConfigInternal, LibProjectConfigInternal } from '../build-context';
+import { InvalidOptionError } from '../error-models';
+import { isInFolder, isSamePaths } from '../utils';
+
+import { getProjectDependencies } from './sort-project-configs';
+
+export function getAffectedProjectConfigs<TConfig extends AppProjectConfigInternal | LibProjectConfigInternal>(
+    projectConfigs: TConfig[],
+    workspaceRoot: string,
+    baseRef: string): TConfig[] {
+    const changedFiles = getChangedFiles(workspaceRoot, baseRef);
+
+    const affectedConfigs = projectConfigs.filter(projectConfig => {
+        const projectRoot = path.resolve(workspaceRoot, projectConfig.root || '');
+        return changedFiles.some(changedFile => isSamePaths(projectRoot, changedFile) || isInFolder(projectRoot, changedFile));
+    });
+
+    // Downstream projects of the affected projects are also affected
+    let downstreamConfig = projectConfigs.find(p => !affectedConfigs.includes(p) &&
+        getProjectDependencies(p, projectConfigs, workspaceRoot).some(d => affectedConfigs.includes(d)));
+    while (downstreamConfig) {
+        affectedConfigs.push(downstreamConfig);
+        downstreamConfig = projectConfigs.find(p => !affectedConfigs.includes(p) &&
+            getProjectDependencies(p, projectConfigs, workspaceRoot).some(d => affectedConfigs.includes(d)));
+    }
+
+    return projectConfigs.filter(p => affectedConfigs.includes(p));
+}
+
+// i.e. origin/main, from the default branch of the origin remote
+export function getDefaultGitBaseRef(workspaceRoot: string): string {
+    try {
+        return execGit(workspaceRoot, ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD']).trim();
+    } catch (err) {
+        throw new InvalidOptionError(
+            'Failed to resolve the default branch of the origin remote, please specify the base ref with --affected=<ref>.');
+    }
+}
+
+function getChangedFiles(workspaceRoot: string, baseRef: string): string[] {
+    if (!baseRef || baseRef.startsWith('-')) {
+        throw new InvalidOptionError(`Invalid git base ref: ${baseRef}.`);
+    }
+
+    let output = '';
+    try {
+        output = execGit(workspaceRoot, ['diff', '--name-only', '--relative', baseRef, '--']) +
+            '\n' +
+            execGit(workspaceRoot, ['ls-files', '--others', '--exclude-standard']);
+    } catch (err) {
+        throw new InvalidOptionError(
+            `Failed to get the changed files from git, base ref: ${baseRef}. ${(err.message || '').trim()}`);
+    }
+
+    return output.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => !!line)
+        .map(line => path.resolve(workspaceRoot, line));
+}
+
+function execGit(workspaceRoot: string, args: string[]): string {
+    return execFileSync('git', args, {
+        cwd: workspaceRoot,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe']
+    }) as string;
+}
@@ -0,0 +1,63 @@
+import { AppProjectConfigInternal } from '../build-context';
+import { DifferentialLoadingOptions, SizeSnapshotOptions } from '../interfaces';
+
+export const legacyBundleSuffix = '-es5';
+
+export function getDifferentialLoadingAppConfigs(appConfig: AppProjectConfigInternal): AppProjectConfigInternal[] {
+    if (!appConfig.differentialLoading ||
+        !appConfig.entry ||
+        appConfig._isDll ||
+        (appConfig.platformTarget && appConfig.platformTarget !== 'web')) {
+        return [appConfig];
+    }
+
+    const differentialLoadingOptions: DifferentialLoadingOptions =
+        typeof appConfig.differentialLoading === 'object' ? appConfig.differentialLoading : {};
+
+    // The legacy bundles are built first, global scripts and assets are only emitted by the modern build
+    const legacyAppConfig = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
+    delete legacyAppConfig.differentialLoading;
+    delete legacyAppConfig.scripts;
+    delete legacyAppConfig.copy;
+    delete legacyAppConfig.favicons;
+    delete legacyAppConfig.serviceWorker;
+    delete legacyAppConfig.bundleAnalyzer;
+    delete legacyAppConfig.extractLicenses;
+    delete legacyAppConfig.serverBundle;
+    delete legacyAppConfig.prerender;
+    delete legacyAppConfig.appShell;
+    legacyAppConfig._differentialLoading = 'legacy';
+
+    const polyfills = appConfig.polyfills
+        ? Array.isArray(appConfig.polyfills) ? appConfig.polyfills : [appConfig.polyfills]
+        : [];
+    const legacyPolyfills = differentialLoadingOptions.legacyPolyfills || [];
+    if (polyfills.length || legacyPolyfills.length) {
+        legacyAppConfig.polyfills = [...polyfills, ...legacyPolyfills];
+    }
+
+    if (appConfig.sizeSnapshot) {
+        const sizeSnapshotOptions: SizeSnapshotOptions =
+            typeof appConfig.sizeSnapshot === 'object' ? appConfig.sizeSnapshot : {};
+        legacyAppConfig.sizeSnapshot = {
+            filename: appendLegacySuffix(sizeSnapshotOptions.filename || 'size-snapshot.json'),
+            baseline: sizeSnapshotOptions.baseline ? appendLegacySuffix(sizeSnapshotOptions.baseline) : undefined
+        };
+    }
+
+    const modernAppConfig = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
+    delete modernAppConfig.differentialLoading;
+    modernAppConfig._differentialLoading = 'modern';
+
+    return [legacyAppConfig, modernAppConfig];
+}
+
+export function getLegacyWebpackConfigName(appConfig: AppProjectConfigInternal): string {
+    const localeSuffix = appConfig._i18nLocaleIndex != null && appConfig.i18nLocale ? `-${appConfig.i18nLocale}` : '';
+    return `${appConfig.name || `apps[${appConfig._index}]`}${localeSuffix}${legacyBundleSuffix}`;
+}
+
+// i.e. size-snapshot.json -> size-snapshot-es5.json
+function appendLegacySuffix(filePath: string): string {
+    return filePath.replace(/(\.[^.\/\\]+)?$/, `${legacyBundleSuffix}$1`);
+}
@@ -0,0 +1,45 @@
+import * as path from 'path';
+
+import { AppProjectConfigInternal } from '../build-context';
+import { normalizeRelativePath, removeEndingSlash } from '../utils';
+
+export function getI18nLocaleAppConfigs(appConfig: AppProjectConfigInternal): AppProjectConfigInternal[] {
+    const i18nLocales = appConfig.i18nLocales;
+    if (!i18nLocales || !Object.keys(i18nLocales).length || appConfig._isDll) {
+        return [appConfig];
+    }
+
+    return Object.keys(i18nLocales).map((locale, index) => {
+        const localeOptions = i18nLocales[locale];
+        const localeAppConfig = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
+        delete localeAppConfig.i18nLocales;
+
+        localeAppConfig._i18nLocaleIndex = index;
+        localeAppConfig.i18nLocale = locale;
+        localeAppConfig.i18nFile = localeOptions.i18nFile;
+        if (localeOptions.i18nFormat) {
+            localeAppConfig.i18nFormat = localeOptions.i18nFormat;
+        }
+
+        if (appConfig.outputPath) {
+            localeAppConfig.outputPath = normalizeRelativePath(path.join(appConfig.outputPath, locale));
+        }
+
+        if (localeOptions.baseHref != null) {
+            localeAppConfig.baseHref = localeOptions.baseHref;
+        } else if (appConfig.baseHref != null) {
+            localeAppConfig.baseHref = `${removeEndingSlash(appConfig.baseHref)}/${locale}/`;
+        }
+
+        // The locale assets are emitted into the locale output directory
+        if (localeOptions.publicPath != null) {
+            localeAppConfig.publicPath = !localeOptions.publicPath || /\/$/.test(localeOptions.publicPath)
+                ? localeOptions.publicPath
+                : `${localeOptions.publicPath}/`;
+        } else if (appConfig.publicPath) {
+            localeAppConfig.publicPath = `${removeEndingSlash(appConfig.publicPath)}/${locale}/`;
+        }
+
+        return localeAppConfig;
+    });
+}
@@ -0,0 +1,59 @@
+import * as path from 'path';
+
+import { AppProjectConfigInternal } from '../build-context';
+import { normalizeRelativePath } from '../utils';
+
+export const serverBundleSuffix = '-server';
+
+export function getServerBundleAppConfigs(appConfig: AppProjectConfigInternal): AppProjectConfigInternal[] {
+    if (!appConfig.serverBundle ||
+        !appConfig.entry ||
+        appConfig._isDll ||
+        (appConfig.platformTarget && appConfig.platformTarget !== 'web')) {
+        return [appConfig];
+    }
+
+    const serverBundleOptions = appConfig.serverBundle;
+
+    // The server bundle is built first, the browser build writes the manifest to server output directory
+    const serverAppConfig = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
+    delete serverAppConfig.serverBundle;
+    delete serverAppConfig.prerender;
+    delete serverAppConfig.appShell;
+    delete serverAppConfig.differentialLoading;
+    delete serverAppConfig.polyfills;
+    delete serverAppConfig.scripts;
+    delete serverAppConfig.styles;
+    delete serverAppConfig.htmlInject;
+    delete serverAppConfig.favicons;
+    delete serverAppConfig.serviceWorker;
+    delete serverAppConfig.referenceDll;
+    delete serverAppConfig.copy;
+    delete serverAppConfig.clean;
+    delete serverAppConfig.budgets;
+    delete serverAppConfig.sizeSnapshot;
+    delete serverAppConfig.compression;
+    delete serverAppConfig.bundleAnalyzer;
+    delete serverAppConfig.extractLicenses;
+    serverAppConfig._isServerBundle = true;
+    serverAppConfig.platformTarget = 'node';
+    serverAppConfig.entry = serverBundleOptions.entry;
+    serverAppConfig.outputPath = getServerBundleOutputPath(appConfig);
+    if (serverBundleOptions.tsConfig) {
+        serverAppConfig.tsConfig = serverBundleOptions.tsConfig;
+    }
+
+    return [serverAppConfig, appConfig];
+}
+
+export function getServerBundleOutputPath(appConfig: AppProjectConfigInternal): string {
+    const outputPath = (appConfig.serverBundle as { outputPath: string }).outputPath;
+    return appConfig._i18nLocaleIndex != null && appConfig.i18nLocale
+        ? normalizeRelativePath(path.join(outputPath, appConfig.i18nLocale))
+        : outputPath;
+}
+
+export function getServerWebpackConfigName(appConfig: AppProjectConfigInternal): string {
+    const localeSuffix = appConfig._i18nLocaleIndex != null && appConfig.i18nLocale ? `-${appConfig.i18nLocale}` : '';
+    return `${appConfig.name || `apps[${appConfig._index}]`}${localeSuffix}${serverBundleSuffix}`;
+}
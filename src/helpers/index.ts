@@ -1,8 +1,17 @@
 export * from './detect-cli';
+export * from './extract-i18n-messages';
+export * from './filter-project-configs';
+export * from './get-affected-project-configs';
 export * from './get-custom-webpack-config';
+export * from './get-differential-loading-app-configs';
+export * from './get-i18n-locale-app-configs';
+export * from './get-server-bundle-app-configs';
 export * from './normalize-environment';
 export * from './output-hash-format';
 export * from './prepare-configs';
+export * from './read-angular-build-config';
 export * from './resolve-loader-path';
+export * from './resolve-project-configs';
 export * from './run-webpack';
+export * from './sort-project-configs';
 export * from './webpack-to-string-stats-options';
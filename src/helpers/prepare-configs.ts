@@ -12,14 +12,18 @@ import { InternalError, InvalidConfigError } from '../error-models';
 import {
     AngularBuildConfig,
     AppBuilderOptions,
+    AppProjectConfigDefaults,
     BuildOptions,
     BuildOptionsCompat,
+    DevServerOptions,
     LibBuilderOptions,
+    LibProjectConfigDefaults,
     ProjectConfigBase
 } from '../interfaces';
 import { formatValidationError, readJsonSync, validateSchema } from '../utils';
 
 import { normalizeEnvironment } from './normalize-environment';
+import { applyWorkspaceDefaults, applyWorkspaceDefaultsToPreset } from './read-angular-build-config';
 
 export function applyProjectConfigWithEnvironment(
     projectConfig: AppProjectConfigInternal | LibProjectConfigInternal,
@@ -74,7 +78,8 @@ export function applyProjectConfigWithEnvironment(
 
 export function applyProjectConfigExtends<TConfig extends ProjectConfigBase>(projectConfig:
     ProjectConfigInternal<TConfig>,
-    projects?: ProjectConfigInternal<TConfig>[]): void {
+    projects?: ProjectConfigInternal<TConfig>[],
+    workspaceDefaults?: AppProjectConfigDefaults | LibProjectConfigDefaults): void {
     if (!projectConfig.extends) {
         return;
     }
@@ -86,6 +91,7 @@ export function applyProjectConfigExtends<TConfig extends ProjectConfigBase>(pro
         }
 
         let foundBaseProject: AppProjectConfigInternal | LibProjectConfigInternal | null | undefined = null;
+        let foundBaseWorkspaceDefaults: AppProjectConfigDefaults | LibProjectConfigDefaults | undefined = workspaceDefaults;
 
         if (extendName.startsWith('ngb:') || extendName.startsWith('angular-build:')) {
             let builtInConfigFileName = extendName.startsWith('ngb:')
@@ -127,7 +133,7 @@ export function applyProjectConfigExtends<TConfig extends ProjectConfigBase>(pro
             const extendLevel: number = (projectConfig as any)._extendLevel || 0;
             config._extendLevel = extendLevel + 1;
 
-            foundBaseProject = config;
+            foundBaseProject = applyWorkspaceDefaultsToPreset(config, workspaceDefaults);
         } else if (extendName.startsWith('projects:')) {
             if ((projectConfig as any)._extendLevel || !projects || projects.length < 2) {
                 continue;
@@ -253,6 +259,7 @@ export function applyProjectConfigExtends<TConfig extends ProjectConfigBase>(pro
 
                         if (libConfig.name === projectName) {
                             foundBaseProject = libConfig;
+                            foundBaseWorkspaceDefaults = angularBuildConfigInternal.libDefaults;
 
                             const extendLevel: number = (projectConfig as any)._extendLevel || 0;
                             (foundBaseProject as any)._extendLevel = extendLevel + 1;
@@ -269,6 +276,7 @@ export function applyProjectConfigExtends<TConfig extends ProjectConfigBase>(pro
 
                         if (appConfig.name === projectName) {
                             foundBaseProject = appConfig;
+                            foundBaseWorkspaceDefaults = angularBuildConfigInternal.appDefaults;
 
                             const extendLevel: number = (projectConfig as any)._extendLevel || 0;
                             (foundBaseProject as any)._extendLevel = extendLevel + 1;
@@ -323,13 +331,16 @@ export function applyProjectConfigExtends<TConfig extends ProjectConfigBase>(pro
             continue;
         }
 
-        const clonedBaseProject = JSON.parse(JSON.stringify(foundBaseProject)) as ProjectConfigInternal<TConfig>;
+        let clonedBaseProject = JSON.parse(JSON.stringify(foundBaseProject)) as ProjectConfigInternal<TConfig>;
         if (clonedBaseProject.extends) {
-            applyProjectConfigExtends(clonedBaseProject, projects);
+            applyProjectConfigExtends(clonedBaseProject, projects, foundBaseWorkspaceDefaults);
 
             delete clonedBaseProject.extends;
         }
 
+        // The workspace defaults of the base project's config file have lower precedence than its own keys
+        clonedBaseProject = applyWorkspaceDefaults(clonedBaseProject, foundBaseWorkspaceDefaults);
+
         if (clonedBaseProject.name) {
             delete clonedBaseProject.name;
         }
@@ -426,6 +437,30 @@ export function getBuildOptionsFromBuilderOptions(options: BuildOptions & BuildO
     return buildOptions;
 }
 
+export function getDevServerOptionsFromBuilderOptions(options: DevServerOptions): DevServerOptions {
+    const devServerOptions: DevServerOptions = {};
+    const devServerOptionKeys: (keyof DevServerOptions)[] = [
+        'host',
+        'port',
+        'proxyConfig',
+        'ssl',
+        'sslKey',
+        'sslCert',
+        'publicHost',
+        'disableHostCheck',
+        'liveReload'
+    ];
+
+    devServerOptionKeys.forEach(key => {
+        if (typeof options[key] !== 'undefined') {
+            devServerOptions[key] = options[key];
+            delete options[key];
+        }
+    });
+
+    return devServerOptions;
+}
+
 export function applyAppConfigCompat(appConfig: AppBuilderOptions): void {
     if (appConfig.target && !appConfig.platformTarget) {
         appConfig.platformTarget = appConfig.target as any;
@@ -0,0 +1,208 @@
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+
+import * as ts from 'typescript';
+
+import { AngularBuildConfigInternal } from '../build-context';
+import { InternalError, InvalidConfigError } from '../error-models';
+import {
+    AngularBuildConfig,
+    AppProjectConfig,
+    AppProjectConfigDefaults,
+    BuildOptions,
+    LibProjectConfig,
+    LibProjectConfigDefaults
+} from '../interfaces';
+import { formatValidationError, readJsonSync, validateSchema } from '../utils';
+
+const Module = require('module');
+
+const configFileNames = ['angular-build.json', 'angular-build.config.js', 'angular-build.config.ts'];
+
+export function getDefaultAngularBuildConfigPath(workspaceRoot: string): string {
+    const configFileName = configFileNames.find(f => existsSync(path.resolve(workspaceRoot, f))) || configFileNames[0];
+
+    return path.resolve(workspaceRoot, configFileName);
+}
+
+export function readAngularBuildConfig(configPath: string,
+    environment?: { [key: string]: boolean | string },
+    buildOptions?: BuildOptions): AngularBuildConfigInternal {
+    let angularBuildConfig: AngularBuildConfig | null = null;
+
+    if (/\.json$/i.test(configPath)) {
+        try {
+            angularBuildConfig = readJsonSync(configPath) as AngularBuildConfigInternal;
+        } catch (jsonErr) {
+            throw new InvalidConfigError(`Invalid configuration, error: ${jsonErr.message || jsonErr}.`);
+        }
+    } else {
+        let exported: any;
+        try {
+            exported = loadConfigModule(configPath);
+        } catch (err) {
+            throw new InvalidConfigError(
+                `Error in loading configuration file - ${configPath}, error: ${err.stack || err.message || err}.`);
+        }
+
+        if (typeof exported === 'function') {
+            exported = exported(environment || {}, buildOptions || { environment: environment || {} });
+        }
+
+        if (!exported || typeof exported !== 'object') {
+            throw new InvalidConfigError(
+                `The configuration file must export an object or a function returning an object - ${configPath}.`);
+        }
+
+        // Detach from module cache, the config object is modified later
+        angularBuildConfig = cloneConfigValue(exported, '', configPath) as AngularBuildConfig;
+    }
+
+    // Validate schema
+    const schemaFileName = 'schema.json';
+    let schemaPath = '';
+    if (existsSync(path.resolve(__dirname, `../schemas/${schemaFileName}`))) {
+        schemaPath = `../schemas/${schemaFileName}`;
+    } else if (existsSync(path.resolve(__dirname, `../../schemas/${schemaFileName}`))) {
+        schemaPath = `../../schemas/${schemaFileName}`;
+    }
+
+    if (!schemaPath) {
+        throw new InternalError("The angular-build schema file doesn't exist.");
+    }
+
+    const schema = require(schemaPath);
+    if (schema.$schema) {
+        delete schema.$schema;
+    }
+    if (angularBuildConfig.$schema) {
+        delete angularBuildConfig.$schema;
+    }
+
+    const errors = validateSchema(schema, angularBuildConfig);
+    if (errors.length) {
+        const errMsg = errors.map(err => formatValidationError(schema, err)).join('\n');
+        throw new InvalidConfigError(
+            `Invalid configuration.\n\n${
+            errMsg}`);
+    }
+
+    // Set angular build defaults
+    const angularBuildConfigInternal = angularBuildConfig as AngularBuildConfigInternal;
+    angularBuildConfigInternal._schema = schema;
+    angularBuildConfigInternal._configPath = configPath;
+    angularBuildConfigInternal.libs = angularBuildConfigInternal.libs || [];
+    angularBuildConfigInternal.apps = angularBuildConfigInternal.apps || [];
+
+    // The workspace defaults are applied after extends, see resolveProjectConfigStages
+    for (let i = 0; i < angularBuildConfigInternal.libs.length; i++) {
+        const libConfig = angularBuildConfigInternal.libs[i];
+        libConfig._index = i;
+        libConfig._projectType = 'lib';
+        libConfig._configPath = configPath;
+    }
+
+    for (let i = 0; i < angularBuildConfigInternal.apps.length; i++) {
+        const appConfig = angularBuildConfigInternal.apps[i];
+        appConfig._index = i;
+        appConfig._projectType = 'app';
+        appConfig._configPath = configPath;
+    }
+
+    return angularBuildConfigInternal;
+}
+
+// The workspace defaults have lower precedence than the project's own keys, the object values are merged deeply
+export function applyWorkspaceDefaults<TConfig extends AppProjectConfig | LibProjectConfig>(projectConfig: TConfig,
+    defaults?: AppProjectConfigDefaults | LibProjectConfigDefaults): TConfig {
+    if (!defaults) {
+        return projectConfig;
+    }
+
+    return mergeConfigObjects(JSON.parse(JSON.stringify(defaults)), projectConfig) as TConfig;
+}
+
+// The workspace defaults have higher precedence than the built-in preset configs, i.e. ngb:app-browser-default
+export function applyWorkspaceDefaultsToPreset<TConfig extends AppProjectConfig | LibProjectConfig>(presetConfig: TConfig,
+    defaults?: AppProjectConfigDefaults | LibProjectConfigDefaults): TConfig {
+    if (!defaults) {
+        return presetConfig;
+    }
+
+    return mergeConfigObjects(presetConfig, JSON.parse(JSON.stringify(defaults))) as TConfig;
+}
+
+function mergeConfigObjects(target: { [key: string]: any }, source: { [key: string]: any }): { [key: string]: any } {
+    const merged = { ...target };
+    Object.keys(source).forEach(key => {
+        const targetValue = merged[key];
+        const sourceValue = source[key];
+        merged[key] = isPlainObject(targetValue) && isPlainObject(sourceValue)
+            ? mergeConfigObjects(targetValue, sourceValue)
+            : sourceValue;
+    });
+
+    return merged;
+}
+
+function isPlainObject(value: any): boolean {
+    return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// The resolved project configs are cloned as json, so the values which can't be represented in json are rejected
+// instead of being dropped silently, the undefined properties are omitted as if they were not set
+function cloneConfigValue(value: any, keyPath: string, configPath: string): any {
+    if (value == null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item, i) => cloneConfigValue(item, `${keyPath}[${i}]`, configPath));
+    }
+
+    const prototype = typeof value === 'object' ? Object.getPrototypeOf(value) : undefined;
+    if (prototype !== Object.prototype && prototype !== null) {
+        const valueType = typeof value === 'function'
+            ? 'function'
+            : value instanceof RegExp ? 'RegExp' : value.constructor && value.constructor.name || typeof value;
+        throw new InvalidConfigError(
+            `The '${keyPath}' value in configuration file - ${configPath} is not supported, ${
+            valueType} value can't be used in the configuration.`);
+    }
+
+    const cloned: { [key: string]: any } = {};
+    Object.keys(value).forEach(key => {
+        if (typeof value[key] === 'undefined') {
+            return;
+        }
+
+        cloned[key] = cloneConfigValue(value[key], keyPath ? `${keyPath}.${key}` : key, configPath);
+    });
+
+    return cloned;
+}
+
+function loadConfigModule(configPath: string): any {
+    let exported: any;
+    if (/\.ts$/i.test(configPath)) {
+        const transpiled = ts.transpileModule(readFileSync(configPath, 'utf-8'), {
+            compilerOptions: {
+                module: ts.ModuleKind.CommonJS,
+                target: ts.ScriptTarget.ES2015,
+                esModuleInterop: true
+            },
+            fileName: configPath
+        });
+
+        const configModule = new Module(configPath, module);
+        configModule.filename = configPath;
+        configModule.paths = Module._nodeModulePaths(path.dirname(configPath));
+        configModule._compile(transpiled.outputText, configPath);
+        exported = configModule.exports;
+    } else {
+        delete require.cache[require.resolve(configPath)];
+        exported = require(configPath);
+    }
+
+    return exported && exported.__esModule && exported.default ? exported.default : exported;
+}
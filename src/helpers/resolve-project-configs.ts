@@ -0,0 +1,77 @@
+import { AngularBuildConfigInternal, AppProjectConfigInternal, LibProjectConfigInternal } from '../build-context';
+import { AppProjectConfigDefaults, LibProjectConfigDefaults } from '../interfaces';
+
+import { filterProjectConfigs } from './filter-project-configs';
+import { applyProjectConfigDefaults, applyProjectConfigExtends, applyProjectConfigWithEnvironment } from './prepare-configs';
+import { applyWorkspaceDefaults } from './read-angular-build-config';
+
+export interface ProjectConfigResolveStages<TConfig extends AppProjectConfigInternal | LibProjectConfigInternal> {
+    /**
+     * The project config with extends and workspace defaults applied.
+     */
+    extended: TConfig;
+    /**
+     * The extended project config with environment overrides applied.
+     */
+    envApplied: TConfig;
+    /**
+     * The final project config with defaults applied.
+     */
+    resolved: TConfig;
+}
+
+export function resolveProjectConfigs(angularBuildConfig: AngularBuildConfigInternal,
+    environment: { [key: string]: boolean | string },
+    filterNames: string[]): (AppProjectConfigInternal | LibProjectConfigInternal)[] {
+    return resolveProjectConfigsWithStages(angularBuildConfig, environment, filterNames)
+        .map(resolveStages => resolveStages.resolved);
+}
+
+export function resolveProjectConfigsWithStages(angularBuildConfig: AngularBuildConfigInternal,
+    environment: { [key: string]: boolean | string },
+    filterNames: string[]): ProjectConfigResolveStages<AppProjectConfigInternal | LibProjectConfigInternal>[] {
+    const resolvedStagesList: ProjectConfigResolveStages<AppProjectConfigInternal | LibProjectConfigInternal>[] = [];
+    const projectGroups: [(AppProjectConfigInternal | LibProjectConfigInternal)[], 'lib' | 'app'][] = [
+        [angularBuildConfig.libs, 'lib'],
+        [angularBuildConfig.apps, 'app']
+    ];
+
+    projectGroups.forEach(([projectConfigs, projectType]) => {
+        filterProjectConfigs(projectConfigs, projectType, filterNames).forEach(rawProjectConfig => {
+            const workspaceDefaults = projectType === 'lib' ? angularBuildConfig.libDefaults : angularBuildConfig.appDefaults;
+            const resolveStages = resolveProjectConfigStages(rawProjectConfig, projectConfigs, environment, workspaceDefaults);
+            if (!resolveStages.resolved.skip) {
+                resolvedStagesList.push(resolveStages);
+            }
+        });
+    });
+
+    return resolvedStagesList;
+}
+
+export function resolveProjectConfigStages<TConfig extends AppProjectConfigInternal | LibProjectConfigInternal>(
+    rawProjectConfig: TConfig,
+    projectConfigs: TConfig[],
+    environment: { [key: string]: boolean | string },
+    workspaceDefaults?: AppProjectConfigDefaults | LibProjectConfigDefaults): ProjectConfigResolveStages<TConfig> {
+    // extends, the workspace defaults override the built-in presets
+    let extended = JSON.parse(JSON.stringify(rawProjectConfig)) as TConfig;
+    applyProjectConfigExtends(extended, projectConfigs, workspaceDefaults);
+
+    // the project's own keys and base projects override the workspace defaults
+    extended = applyWorkspaceDefaults(extended, workspaceDefaults);
+
+    // apply env
+    const envApplied = JSON.parse(JSON.stringify(extended)) as TConfig;
+    applyProjectConfigWithEnvironment(envApplied, environment);
+
+    // apply defaults
+    const resolved = JSON.parse(JSON.stringify(envApplied)) as TConfig;
+    applyProjectConfigDefaults(resolved, environment);
+
+    return {
+        extended: extended,
+        envApplied: envApplied,
+        resolved: resolved
+    };
+}
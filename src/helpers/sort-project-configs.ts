@@ -0,0 +1,143 @@
+import { existsSync } from 'fs';
+import * as path from 'path';
+
+import * as ts from 'typescript';
+
+import { AppProjectConfigInternal, LibProjectConfigInternal } from '../build-context';
+import { InvalidConfigError } from '../error-models';
+import { isInFolder, isSamePaths } from '../utils';
+
+import { filterProjectConfigs } from './filter-project-configs';
+
+export function getProjectConfigKey(projectConfig: AppProjectConfigInternal | LibProjectConfigInternal): string {
+    return `${projectConfig._projectType === 'lib' ? 'libs' : 'apps'}[${projectConfig._index}]`;
+}
+
+export function getProjectDependencies<TConfig extends AppProjectConfigInternal | LibProjectConfigInternal>(
+    projectConfig: TConfig,
+    projectConfigs: TConfig[],
+    workspaceRoot: string): TConfig[] {
+    const projectKey = getProjectConfigKey(projectConfig);
+    const dependencies: TConfig[] = [];
+
+    (projectConfig.dependsOn || []).forEach(dependencyName => {
+        const dependency = projectConfigs.find(p => p.name === dependencyName);
+        if (!dependency) {
+            throw new InvalidConfigError(
+                `The '${dependencyName}' project which '${projectConfig.name || projectKey
+                }' depends on is not found or is skipped, check your configuration file - ${projectConfig._configPath}.`);
+        }
+
+        if (!dependencies.includes(dependency)) {
+            dependencies.push(dependency);
+        }
+    });
+
+    // Auto detect from tsconfig paths mapped to the output directory or package entry of lib projects
+    getTsConfigPathMappings(projectConfig, workspaceRoot).forEach(mappedPath => {
+        projectConfigs
+            .filter(p => p !== projectConfig &&
+                p._projectType === 'lib' &&
+                p.outputPath &&
+                !dependencies.includes(p))
+            .filter(p => {
+                const outputPath = path.resolve(workspaceRoot, p.outputPath as string);
+                return isSamePaths(outputPath, mappedPath) || isInFolder(outputPath, mappedPath);
+            })
+            .forEach(p => dependencies.push(p));
+    });
+
+    return dependencies;
+}
+
+export function sortProjectConfigsByDependencies<TConfig extends AppProjectConfigInternal | LibProjectConfigInternal>(
+    projectConfigs: TConfig[],
+    filterNames: string[],
+    workspaceRoot: string): TConfig[] {
+    const filteredConfigs = [
+        ...filterProjectConfigs(projectConfigs.filter(p => p._projectType === 'lib'), 'lib', filterNames),
+        ...filterProjectConfigs(projectConfigs.filter(p => p._projectType === 'app'), 'app', filterNames)
+    ];
+
+    const sortedConfigs: TConfig[] = [];
+    const visitingConfigs: TConfig[] = [];
+
+    const visit = (projectConfig: TConfig) => {
+        if (sortedConfigs.includes(projectConfig)) {
+            return;
+        }
+
+        if (visitingConfigs.includes(projectConfig)) {
+            const cycle = [...visitingConfigs.slice(visitingConfigs.indexOf(projectConfig)), projectConfig]
+                .map(p => p.name || getProjectConfigKey(p));
+            throw new InvalidConfigError(
+                `Circular project dependency is detected: ${cycle.join(' -> ')}, check your configuration file - ${
+                projectConfig._configPath}.`);
+        }
+
+        visitingConfigs.push(projectConfig);
+        getProjectDependencies(projectConfig, projectConfigs, workspaceRoot).forEach(visit);
+        visitingConfigs.pop();
+
+        sortedConfigs.push(projectConfig);
+    };
+
+    filteredConfigs.forEach(visit);
+
+    return sortedConfigs;
+}
+
+function getTsConfigPathMappings(projectConfig: AppProjectConfigInternal | LibProjectConfigInternal,
+    workspaceRoot: string): string[] {
+    const projectRoot = path.resolve(workspaceRoot, projectConfig.root || '');
+    let configuredTsConfig: string | undefined;
+    if (projectConfig._projectType === 'lib') {
+        const libConfig = projectConfig as LibProjectConfigInternal;
+        configuredTsConfig = libConfig.tsTranspilation ? libConfig.tsTranspilation.tsConfig : undefined;
+    } else {
+        configuredTsConfig = (projectConfig as AppProjectConfigInternal).tsConfig;
+    }
+
+    const tsConfigPath = [
+        configuredTsConfig ? path.resolve(projectRoot, configuredTsConfig) : '',
+        path.resolve(projectRoot, 'tsconfig.json'),
+        path.resolve(workspaceRoot, 'tsconfig.json')
+    ].find(p => !!p && existsSync(p));
+
+    if (!tsConfigPath) {
+        return [];
+    }
+
+    const jsonConfigFile = ts.readConfigFile(tsConfigPath, ts.sys.readFile);
+    if (jsonConfigFile.error) {
+        return [];
+    }
+
+    const compilerOptions = ts.parseJsonConfigFileContent(jsonConfigFile.config,
+        ts.sys,
+        path.dirname(tsConfigPath),
+        undefined,
+        tsConfigPath).options;
+    const pathsOption = compilerOptions.paths;
+    if (!pathsOption) {
+        return [];
+    }
+
+    const baseUrl = compilerOptions.baseUrl || path.dirname(tsConfigPath);
+    const mappedPaths: string[] = [];
+    Object.keys(pathsOption).forEach(key => {
+        pathsOption[key].forEach(mapping => {
+            // Catch-all mappings, i.e. "*": ["*"], don't point to any project output
+            if (/^[.\/\\]*\*/.test(mapping)) {
+                return;
+            }
+
+            const mappedPath = path.resolve(baseUrl, mapping.replace(/\*.*$/, ''));
+            if (!mappedPaths.includes(mappedPath)) {
+                mappedPaths.push(mappedPath);
+            }
+        });
+    });
+
+    return mappedPaths;
+}
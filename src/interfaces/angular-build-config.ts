@@ -1,5 +1,6 @@
-import { AppProjectConfig } from './app-project-config';
-import { LibProjectConfig } from './lib-project-config';
+import { AppProjectConfig, AppProjectConfigDefaults } from './app-project-config';
+import { BuildOptions } from './build-options';
+import { LibProjectConfig, LibProjectConfigDefaults } from './lib-project-config';
 
 /**
  * @additionalProperties true
@@ -9,6 +10,14 @@ export interface AngularBuildConfig {
      * Link to schema.
      */
     $schema?: string;
+    /**
+     * The shared options merged under every library project's own options and over the built-in presets.
+     */
+    libDefaults?: LibProjectConfigDefaults;
+    /**
+     * The shared options merged under every application project's own options and over the built-in presets.
+     */
+    appDefaults?: AppProjectConfigDefaults;
     /**
      * The library project configurations.
      */
@@ -18,3 +27,9 @@ export interface AngularBuildConfig {
      */
     apps: AppProjectConfig[];
 }
+
+/**
+ * The function which can be exported from angular-build.config.js or angular-build.config.ts file.
+ */
+export type AngularBuildConfigFactory =
+    (env: { [key: string]: boolean | string }, buildOptions: BuildOptions) => AngularBuildConfig;
@@ -34,6 +34,23 @@ export interface HtmlInjectOptions {
     customScriptAttributes?: { [key: string]: string };
     customLinkAttributes?: { [key: string]: string };
     customResourceHintAttributes?: { [key: string]: string };
+
+    /**
+     * If true or hash algorithms are set, integrity and crossorigin attributes are added to the injected scripts,
+     * stylesheets and resource hints.
+     * @default ["sha256", "sha384"] if true
+     */
+    subresourceIntegrity?: boolean | ('sha256' | 'sha384' | 'sha512')[];
+    /**
+     * The nonce placeholder to be added to inline scripts and styles, i.e. {{cspNonce}}.
+     * The server should replace it with a random nonce value of Content-Security-Policy header.
+     */
+    cspNonce?: string;
+    /**
+     * Output file for sha256 hashes of inline scripts and styles. If the file extension is .json,
+     * the hashes are written as json, otherwise as Content-Security-Policy header directives.
+     */
+    cspHashesOut?: string;
 }
 
 export interface ProvideOptions {
@@ -96,6 +113,146 @@ export interface BundleAnalyzerOptions {
     openAnalyzer?: boolean;
 }
 
+/**
+ * @additionalProperties false
+ */
+export interface Budget {
+    /**
+     * The type of budget
+     */
+    type: 'all' | 'allScript' | 'any' | 'anyScript' | 'bundle' | 'initial';
+    /**
+     * The name of the bundle
+     */
+    name?: string;
+    /**
+     * The baseline size for comparison.
+     */
+    baseline?: string;
+    /**
+     * The maximum threshold for warning relative to the baseline.
+     */
+    maximumWarning?: string;
+    /**
+     * The maximum threshold for error relative to the baseline.
+     */
+    maximumError?: string;
+    /**
+     * The minimum threshold for warning relative to the baseline.
+     */
+    minimumWarning?: string;
+    /**
+     * The minimum threshold for error relative to the baseline.
+     */
+    minimumError?: string;
+    /**
+     * The threshold for warning relative to the baseline (min & max), only the maximum threshold without baseline.
+     */
+    warning?: string;
+    /**
+     * The threshold for error relative to the baseline (min & max), only the maximum threshold without baseline.
+     */
+    error?: string;
+}
+
+/**
+ * @additionalProperties false
+ */
+export interface SizeSnapshotOptions {
+    /**
+     * Name of the size snapshot file that will be generated in bundles output directory.
+     * @default size-snapshot.json
+     */
+    filename?: string;
+    /**
+     * Path to the baseline size snapshot file to compare with. If not set, the snapshot of the previous build is used.
+     */
+    baseline?: string;
+}
+
+/**
+ * @additionalProperties false
+ */
+export interface DifferentialLoadingOptions {
+    /**
+     * Polyfill entries to be bundled for legacy browsers only.
+     */
+    legacyPolyfills?: string[];
+}
+
+/**
+ * @additionalProperties false
+ */
+export interface ServerBundleOptions {
+    /**
+     * The entry file for server bundle, i.e. main.server.ts.
+     */
+    entry: string;
+    /**
+     * The output directory for server bundle, relative to workspace root.
+     */
+    outputPath: string;
+    /**
+     * The typescript configuration file for server bundle, default is app's tsConfig.
+     */
+    tsConfig?: string;
+    /**
+     * Name of the manifest file that will be generated in server bundle output directory.
+     * @default server-manifest.json
+     */
+    manifestFilename?: string;
+}
+
+/**
+ * @additionalProperties false
+ */
+export interface PrerenderOptions {
+    /**
+     * The routes to be prerendered, i.e. ['/', '/about'].
+     */
+    routes?: string[];
+    /**
+     * Path to a file listing the routes to be prerendered, one route per line.
+     */
+    routesFile?: string;
+    /**
+     * The timeout in milliseconds to render each route, default is 60000.
+     */
+    timeout?: number;
+}
+
+/**
+ * @additionalProperties false
+ */
+export interface AppShellOptions {
+    /**
+     * The route to be rendered as app shell, i.e. '/shell'.
+     */
+    route: string;
+}
+
+/**
+ * @additionalProperties false
+ */
+export interface LocaleOptions {
+    /**
+     * Path to the translation file of the locale.
+     */
+    i18nFile: string;
+    /**
+     * Import format if different from `i18nFormat`.
+     */
+    i18nFormat?: string;
+    /**
+     * The base URL of the locale, default is `baseHref` followed by the locale, i.e. /fr/.
+     */
+    baseHref?: string;
+    /**
+     * The public URL of the locale output directory, default is `publicPath` followed by the locale, i.e. /fr/.
+     */
+    publicPath?: string;
+}
+
 export type WebpackStatsPreset
     = boolean
     | 'errors-only'
@@ -257,6 +414,26 @@ export interface AppProjectConfigBase extends ProjectConfigBase {
      * Build using Ahead of Time compilation.
      */
     aot?: boolean;
+    /**
+     * If true, the app is compiled twice, ES2015 bundles are injected with type="module" for modern browsers
+     * and ES5 bundles are injected with nomodule for legacy browsers.
+     */
+    differentialLoading?: DifferentialLoadingOptions | boolean;
+    /**
+     * If set, a server bundle for server-side rendering is built along with the browser bundles
+     * using the same file replacements, lazy modules and locale.
+     */
+    serverBundle?: ServerBundleOptions;
+    /**
+     * If set, the routes are rendered with the server bundle after build and written as `route/index.html`
+     * files to output directory. Requires `serverBundle`.
+     */
+    prerender?: PrerenderOptions;
+    /**
+     * If set, the app shell route is rendered with the server bundle after build and its html, including
+     * the component styles, is inlined into output index html. Requires `serverBundle`.
+     */
+    appShell?: AppShellOptions;
     /**
      * Define the output filename cache-busting hashing mode.
      */
@@ -265,6 +442,10 @@ export interface AppProjectConfigBase extends ProjectConfigBase {
      * If true, build process will extracts css specified in styles entry as styles.css.
      */
     extractCss?: boolean;
+    /**
+     * Enable hot module replacement when serving with dev server.
+     */
+    hmr?: boolean;
     /**
      *  Custom environment variables to be included in bundle.
      */
@@ -314,6 +495,14 @@ export interface AppProjectConfigBase extends ProjectConfigBase {
      * Webpack Bundle analyzer options.
      */
     bundleAnalyzer?: BundleAnalyzerOptions | boolean;
+    /**
+     * Budget thresholds to ensure parts of your application stay within boundaries which you set.
+     */
+    budgets?: Budget[];
+    /**
+     * Stores the bundle size snapshot and prints the asset size changes against the previous build or the baseline snapshot.
+     */
+    sizeSnapshot?: SizeSnapshotOptions | boolean;
     /**
      * The webpack stats option - lets you precisely control what bundle information gets displayed.
      */
@@ -342,6 +531,10 @@ export interface AppProjectConfigBase extends ProjectConfigBase {
      * How to handle missing messages.
      */
     i18nMissingTranslation?: 'error' | 'warning' | 'ignore';
+    /**
+     * Translations to build in one invocation, each locale is built into `outputPath/<locale>/`.
+     */
+    i18nLocales?: { [locale: string]: LocaleOptions };
 
     /**
      *  Path to the extracted message file.
@@ -390,6 +583,16 @@ export interface AppEnvOverridesOptions {
     [name: string]: AppProjectConfigBase;
 }
 
+/**
+ * @additionalProperties false
+ */
+export interface AppProjectConfigDefaults extends AppProjectConfigBase {
+    /**
+     * To override properties based on build environment, merged with the project's envOverrides.
+     */
+    envOverrides?: AppEnvOverridesOptions;
+}
+
 /**
  * @additionalProperties false
  */
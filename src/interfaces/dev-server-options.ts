@@ -0,0 +1,44 @@
+/**
+ * @additionalProperties true
+ */
+export interface DevServerOptions {
+    /**
+     * Host to listen on.
+     * @default localhost
+     */
+    host?: string;
+    /**
+     * Port to listen on.
+     * @default 4200
+     */
+    port?: number;
+    /**
+     * Proxy configuration file.
+     */
+    proxyConfig?: string;
+    /**
+     * Serve using HTTPS.
+     */
+    ssl?: boolean;
+    /**
+     * SSL key to use for serving HTTPS.
+     */
+    sslKey?: string;
+    /**
+     * SSL certificate to use for serving HTTPS.
+     */
+    sslCert?: string;
+    /**
+     * The public host name used by the live reload client.
+     */
+    publicHost?: string;
+    /**
+     * Don't verify connected clients are part of allowed hosts.
+     */
+    disableHostCheck?: boolean;
+    /**
+     * Reload the page on change.
+     * @default true
+     */
+    liveReload?: boolean;
+}
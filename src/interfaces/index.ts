@@ -2,6 +2,7 @@ export * from './angular-build-config';
 export * from './app-project-config';
 export * from './build-options';
 export * from './builder-options';
+export * from './dev-server-options';
 export * from './favicons-config';
 export * from './lib-project-config';
 export * from './project-config';
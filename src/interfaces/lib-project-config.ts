@@ -161,6 +161,16 @@ export interface LibEnvOverridesOptions {
     [name: string]: LibProjectConfigBase;
 }
 
+/**
+ * @additionalProperties false
+ */
+export interface LibProjectConfigDefaults extends LibProjectConfigBase {
+    /**
+     * To override properties based on build environment, merged with the project's envOverrides.
+     */
+    envOverrides?: LibEnvOverridesOptions;
+}
+
 /**
  * @additionalProperties false
  */
@@ -108,11 +108,41 @@ export type ExternalsEntry = string | ExternalsObjectElement;
  */
 export interface StylePreprocessorOptions {
     /**
-     * An array of paths that LibSass can look in to attempt to resolve your @import declarations.
+     * An array of paths that Sass, Less and Stylus can look in to attempt to resolve your @import declarations.
      */
     includePaths: string[];
 }
 
+/**
+ * @additionalProperties false
+ */
+export interface CompressionOptions {
+    /**
+     * If true, gzip compressed files (.gz) are generated.
+     * @default true
+     */
+    gzip?: boolean;
+    /**
+     * If true, brotli compressed files (.br) are generated.
+     * @default true
+     */
+    brotli?: boolean;
+    /**
+     * Only files at least this size in bytes are compressed.
+     * @default 1024
+     */
+    threshold?: number;
+    /**
+     * Glob patterns of files to be compressed.
+     * @default ["**\/*.js", "**\/*.css", "**\/*.html", "**\/*.svg", "**\/*.json", "**\/*.txt"]
+     */
+    include?: string[];
+    /**
+     * Glob patterns of files to exclude from compressing.
+     */
+    exclude?: string[];
+}
+
 export interface EnvOverridesOptions<TConfig extends ProjectConfigBase> {
     [name: string]: TConfig;
 }
@@ -153,6 +183,10 @@ export interface ProjectConfigBase {
      * If true, sourcemaps will be generated.
      */
     sourceMap?: boolean;
+    /**
+     * Generates pre-compressed gzip and brotli files next to the output files.
+     */
+    compression?: CompressionOptions | boolean;
     /**
      * If true, this project config will be skipped by the build process.
      */
@@ -179,6 +213,11 @@ export interface ProjectConfig<TConfig extends ProjectConfigBase> extends Projec
      * The project root folder.
      */
     root?: string;
+    /**
+     * The name(s) of other projects which must be built before this project. Lib projects whose output directory
+     * or package entry is mapped in tsconfig paths are detected automatically.
+     */
+    dependsOn?: string[];
     /**
      * To override properties based on build environment.
      */
@@ -0,0 +1,247 @@
+// Ref: https://github.com/angular/angular-cli - bundle-budget.ts
+
+import * as webpack from 'webpack';
+
+import { InternalError, InvalidConfigError } from '../../../error-models';
+import { Budget } from '../../../interfaces';
+import { Logger, LoggerOptions, colorize, formatSize } from '../../../utils';
+
+export interface BundleBudgetsWebpackPluginOptions {
+    budgets: Budget[];
+    loggerOptions?: LoggerOptions;
+}
+
+interface BudgetSize {
+    label: string;
+    size: number;
+}
+
+interface BudgetThreshold {
+    limit: number;
+    type: 'min' | 'max';
+    severity: 'warning' | 'error';
+}
+
+interface BudgetResult {
+    label: string;
+    size: number;
+    thresholds: BudgetThreshold[];
+    status: 'ok' | 'warning' | 'error';
+    messages: string[];
+}
+
+export class BundleBudgetsWebpackPlugin {
+    private readonly _logger: Logger;
+    private readonly _budgetThresholds: { budget: Budget; thresholds: BudgetThreshold[] }[];
+
+    get name(): string {
+        return 'bundle-budgets-webpack-plugin';
+    }
+
+    constructor(private readonly _options: BundleBudgetsWebpackPluginOptions) {
+        if (!_options || !_options.budgets) {
+            throw new InternalError(`[${this.name}] The 'options.budgets' can't be null or empty.`);
+        }
+
+        this._logger = new Logger({ name: `[${this.name}]`, ...this._options.loggerOptions });
+        this._budgetThresholds = this._options.budgets
+            .filter(budget => budget.type !== 'bundle' || !!budget.name)
+            .map(budget => ({ budget: budget, thresholds: this.getThresholds(budget) }));
+    }
+
+    apply(compiler: webpack.Compiler): void {
+        compiler.hooks.afterEmit.tap(this.name, (compilation: any) => {
+            const results: BudgetResult[] = [];
+            this._budgetThresholds.forEach(budgetThreshold => {
+                this.getSizes(budgetThreshold.budget, compilation).forEach(budgetSize => {
+                    results.push(this.evaluate(budgetSize, budgetThreshold.thresholds));
+                });
+            });
+
+            results.forEach(result => {
+                result.messages.forEach(message => {
+                    if (result.status === 'error') {
+                        compilation.errors.push(new Error(`[${this.name}] ${message}`));
+                    } else {
+                        compilation.warnings.push(new Error(`[${this.name}] ${message}`));
+                    }
+                });
+            });
+
+            if (results.length) {
+                this._logger.info(`Budgets:\n${this.formatTable(results)}\n`);
+            }
+        });
+    }
+
+    private getSizes(budget: Budget, compilation: any): BudgetSize[] {
+        const assets = compilation.assets as { [key: string]: any };
+        const assetNames = Object.keys(assets).filter(assetName => !/\.(map|gz|br)$/.test(assetName));
+        const scriptNames = assetNames.filter(assetName => assetName.endsWith('.js'));
+        const getSize = (assetName: string) => assets[assetName] ? assets[assetName].size() as number : 0;
+        const sumChunks = (chunks: any[]) => {
+            const files: string[] = [];
+            chunks.forEach(chunk => {
+                (chunk.files as string[])
+                    .filter(file => !file.endsWith('.map') && !files.includes(file))
+                    .forEach(file => files.push(file));
+            });
+
+            return files.reduce((total, file) => total + getSize(file), 0);
+        };
+
+        switch (budget.type) {
+            case 'bundle': {
+                const chunks = (compilation.chunks as any[]).filter(chunk => chunk.name === budget.name);
+                if (!chunks.length) {
+                    compilation.warnings.push(new Error(`[${this.name}] The '${budget.name}' bundle is not found for the budget.`));
+                    return [];
+                }
+
+                return [{ label: `bundle ${budget.name}`, size: sumChunks(chunks) }];
+            }
+            case 'initial':
+                return [{
+                    label: 'initial',
+                    size: sumChunks((compilation.chunks as any[]).filter(chunk => chunk.canBeInitial()))
+                }];
+            case 'allScript':
+                return [{
+                    label: 'total scripts',
+                    size: scriptNames.reduce((total, assetName) => total + getSize(assetName), 0)
+                }];
+            case 'all':
+                return [{
+                    label: 'total',
+                    size: assetNames.reduce((total, assetName) => total + getSize(assetName), 0)
+                }];
+            case 'anyScript':
+                return scriptNames.map(assetName => ({ label: assetName, size: getSize(assetName) }));
+            case 'any':
+                return assetNames.map(assetName => ({ label: assetName, size: getSize(assetName) }));
+            default:
+                return [];
+        }
+    }
+
+    private getThresholds(budget: Budget): BudgetThreshold[] {
+        const thresholds: BudgetThreshold[] = [];
+        const addThreshold = (value: string | undefined, type: 'min' | 'max', severity: 'warning' | 'error') => {
+            if (!value) {
+                return;
+            }
+
+            const limit = calculateBytes(value, budget.baseline, type === 'max' ? 1 : -1);
+            if (isNaN(limit) || (budget.baseline && isNaN(calculateBytes(budget.baseline)))) {
+                throw new InvalidConfigError(
+                    `Invalid budget size value, type: ${budget.type}, value: '${value}', baseline: '${budget.baseline || ''}'.`);
+            }
+
+            thresholds.push({ limit: limit, type: type, severity: severity });
+        };
+
+        addThreshold(budget.maximumWarning, 'max', 'warning');
+        addThreshold(budget.maximumError, 'max', 'error');
+        addThreshold(budget.minimumWarning, 'min', 'warning');
+        addThreshold(budget.minimumError, 'min', 'error');
+        addThreshold(budget.warning, 'max', 'warning');
+        addThreshold(budget.error, 'max', 'error');
+
+        // The minimum thresholds are only meaningful relative to the baseline
+        if (budget.baseline) {
+            addThreshold(budget.warning, 'min', 'warning');
+            addThreshold(budget.error, 'min', 'error');
+        }
+
+        return thresholds;
+    }
+
+    private evaluate(budgetSize: BudgetSize, thresholds: BudgetThreshold[]): BudgetResult {
+        const result: BudgetResult = {
+            label: budgetSize.label,
+            size: budgetSize.size,
+            thresholds: thresholds,
+            status: 'ok',
+            messages: []
+        };
+
+        thresholds
+            .filter(threshold => threshold.type === 'max' ? budgetSize.size > threshold.limit : budgetSize.size < threshold.limit)
+            .sort((a, b) => a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)
+            .forEach(threshold => {
+                if (result.status === 'ok' || (result.status === 'warning' && threshold.severity === 'error')) {
+                    result.status = threshold.severity;
+                }
+
+                const difference = Math.abs(budgetSize.size - threshold.limit);
+                result.messages.push(`${budgetSize.label} ${threshold.type === 'max' ? 'exceeded maximum' : 'failed to meet minimum'
+                    } budget. Budget ${formatSize(threshold.limit)} was not met by ${formatSize(difference)} with a total of ${
+                    formatSize(budgetSize.size)}.`);
+            });
+
+        // Only the most severe messages are reported
+        result.messages = result.messages.slice(0, 1);
+
+        return result;
+    }
+
+    private formatTable(results: BudgetResult[]): string {
+        const headers = ['Budget', 'Size', 'Thresholds', 'Status'];
+        const rows = results.map(result => [
+            result.label,
+            formatSize(result.size),
+            result.thresholds
+                .map(t => `${t.severity} ${t.type === 'max' ? '>' : '<'} ${formatSize(t.limit)}`)
+                .join(', '),
+            result.status
+        ]);
+
+        const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+        const formatRow = (row: string[]) =>
+            `  ${row.map((cell, i) => cell + ' '.repeat(widths[i] - cell.length)).join('  ')}`.replace(/\s+$/, '');
+        const colorizeStatus = (line: string, status: string) => status === 'error'
+            ? colorize(line, 'red')
+            : status === 'warning' ? colorize(line, 'yellow') : line;
+
+        return [
+            formatRow(headers),
+            ...rows.map((row, i) => colorizeStatus(formatRow(row), results[i].status))
+        ].join('\n');
+    }
+}
+
+function calculateBytes(input: string, baseline?: string, factor: 1 | -1 = 1): number {
+    const matches = input.match(/^\s*(\d+(?:\.\d+)?)\s*(%|(?:[mMkKgG])?[bB])?\s*$/);
+    if (!matches) {
+        return NaN;
+    }
+
+    const baselineBytes = baseline ? calculateBytes(baseline) : 0;
+
+    let value = Number(matches[1]);
+    switch (matches[2] && matches[2].toLowerCase()) {
+        case '%':
+            if (!baseline) {
+                return NaN;
+            }
+
+            value = baselineBytes * value / 100;
+            break;
+        case 'kb':
+            value *= 1024;
+            break;
+        case 'mb':
+            value *= 1024 * 1024;
+            break;
+        case 'gb':
+            value *= 1024 * 1024 * 1024;
+            break;
+        default:
+    }
+
+    if (!baselineBytes) {
+        return value;
+    }
+
+    return baselineBytes + value * factor;
+}
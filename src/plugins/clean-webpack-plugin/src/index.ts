@@ -22,6 +22,7 @@ export interface CleanWebpackPluginOptions extends CleanOptions {
     forceCleanToDisk?: boolean;
     persistedOutputFileSystemNames?: string[];
     host?: virtualFs.Host;
+    dryRun?: boolean;
     loggerOptions?: LoggerOptions;
 }
 
@@ -158,10 +159,21 @@ export class CleanWebpackPlugin {
         compiler.hooks.afterEmit.tapAsync(this.name, afterEmitCleanTaskFn);
     }
 
+    async cleanBeforeBuild(outputPath: string): Promise<string[]> {
+        const beforeBuildOptions = this._options.beforeBuild;
+        if (!beforeBuildOptions ||
+            (!beforeBuildOptions.cleanOutDir && (!beforeBuildOptions.paths || !beforeBuildOptions.paths.length))) {
+            return [];
+        }
+
+        return this.cleanTask(beforeBuildOptions, outputPath, this._options.workspaceRoot);
+    }
+
     private async cleanTask(cleanOptions: BeforeBuildCleanOptions | AfterEmitCleanOptions,
         outputPath: string,
-        workspaceRoot: string): Promise<void> {
+        workspaceRoot: string): Promise<string[]> {
         const rawPathsToClean: string[] = [];
+        const deletedPaths: string[] = [];
 
         if (!outputPath) {
             throw new InternalError("The 'outputPath' options is required.");
@@ -461,7 +473,11 @@ export class CleanWebpackPlugin {
 
             const relToWorkspace = normalizeRelativePath(path.relative(workspaceRoot, pathToClean));
 
-            if (this._options.host) {
+            if (this._options.dryRun) {
+                if (!deletedPaths.find(p => isInFolder(p, pathToClean)) && await pathExists(pathToClean)) {
+                    deletedPaths.push(pathToClean);
+                }
+            } else if (this._options.host) {
                 const host = this._options.host;
                 const resolvedPath = normalize(pathToClean);
 
@@ -470,6 +486,7 @@ export class CleanWebpackPlugin {
                         if (exists) {
 
                             this._logger.debug(`Deleting ${relToWorkspace}`);
+                            deletedPaths.push(pathToClean);
 
                             return concat(host.delete(resolvedPath), of(null)).pipe(last());
                         } else {
@@ -481,6 +498,7 @@ export class CleanWebpackPlugin {
                 const exists = await pathExists(pathToClean);
                 if (exists) {
                     this._logger.debug(`Deleting ${relToWorkspace}`);
+                    deletedPaths.push(pathToClean);
 
                     await new Promise((resolve: any, reject: any) => rimraf(pathToClean,
                         (err: Error) => err ? reject(err) : resolve())
@@ -488,6 +506,8 @@ export class CleanWebpackPlugin {
                 }
             }
         }
+
+        return deletedPaths;
     }
 
     private async calculateOutputPathRecursive(host: virtualFs.Host,
@@ -0,0 +1,199 @@
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import * as denodeify from 'denodeify';
+import { readFile, stat, writeFile } from 'fs-extra';
+import * as glob from 'glob';
+import * as minimatch from 'minimatch';
+import * as webpack from 'webpack';
+
+import { CompressionOptions } from '../../../interfaces';
+import { Logger, LoggerOptions, formatSize, normalizeRelativePath, toStageTap } from '../../../utils';
+
+const globPromise = denodeify(glob) as (pattern: string, options?: glob.IOptions) => Promise<string[]>;
+
+export interface CompressionWebpackPluginOptions extends CompressionOptions {
+    /**
+     * Absolute path for output directory. If set, the files written to this directory are compressed after emit,
+     * otherwise the compilation assets are compressed.
+     */
+    outputPath?: string;
+    loggerOptions?: LoggerOptions;
+}
+
+// Brotli is available in zlib since Node.js 11.7.0
+interface BrotliZlib {
+    brotliCompressSync?: (buffer: Buffer, options?: { params?: { [key: number]: number } }) => Buffer;
+    constants: {
+        BROTLI_PARAM_QUALITY?: number;
+    };
+}
+
+interface CompressedFile {
+    file: string;
+    size: number;
+    gzip?: Buffer;
+    brotli?: Buffer;
+}
+
+export class CompressionWebpackPlugin {
+    private readonly _logger: Logger;
+    private readonly _include: string[];
+    private readonly _threshold: number;
+    private _brotliWarned = false;
+    private _buildStartTime = 0;
+
+    get name(): string {
+        return 'compression-webpack-plugin';
+    }
+
+    constructor(private readonly _options: CompressionWebpackPluginOptions) {
+        this._logger = new Logger({ name: `[${this.name}]`, ...this._options.loggerOptions });
+        this._include = this._options.include && this._options.include.length
+            ? this._options.include
+            : ['**/*.js', '**/*.css', '**/*.html', '**/*.svg', '**/*.json', '**/*.txt'];
+        this._threshold = typeof this._options.threshold === 'number' ? this._options.threshold : 1024;
+    }
+
+    apply(compiler: webpack.Compiler): void {
+        if (this._options.outputPath) {
+            const outputPath = this._options.outputPath;
+            // Only the files written by the current build are compressed, the file system time is in seconds
+            const recordBuildStartTime = () => {
+                this._buildStartTime = Math.floor(Date.now() / 1000) * 1000;
+            };
+            compiler.hooks.run.tap(this.name, recordBuildStartTime);
+            compiler.hooks.watchRun.tap(this.name, recordBuildStartTime);
+
+            compiler.hooks.afterEmit.tapPromise(this.name, async (compilation: any) => {
+                const files = await globPromise('**/*', { cwd: outputPath, nodir: true, dot: true });
+                const compressedFiles: CompressedFile[] = [];
+                for (const file of files.map(f => normalizeRelativePath(f)).filter(f => this.shouldCompress(f))) {
+                    const filePath = path.resolve(outputPath, file);
+                    if ((await stat(filePath)).mtime.getTime() < this._buildStartTime) {
+                        continue;
+                    }
+
+                    const compressedFile = this.compress(file, await readFile(filePath), compilation);
+                    if (!compressedFile) {
+                        continue;
+                    }
+
+                    if (compressedFile.gzip) {
+                        await writeFile(`${filePath}.gz`, compressedFile.gzip);
+                    }
+                    if (compressedFile.brotli) {
+                        await writeFile(`${filePath}.br`, compressedFile.brotli);
+                    }
+                    compressedFiles.push(compressedFile);
+                }
+
+                if (compressedFiles.length) {
+                    this._logger.info(this.formatCompressedFiles(compressedFiles));
+                }
+            });
+        } else {
+            // Compressed after other plugins emitted their assets, i.e. index.html
+            compiler.hooks.emit.tap(toStageTap({ name: this.name, stage: 1000 }), (compilation: any) => {
+                Object.keys(compilation.assets)
+                    .filter(assetName => this.shouldCompress(assetName))
+                    .forEach(assetName => {
+                        const source = compilation.assets[assetName].source();
+                        const content = Buffer.isBuffer(source) ? source : Buffer.from(source, 'utf8');
+                        const compressedFile = this.compress(assetName, content, compilation);
+                        if (!compressedFile) {
+                            return;
+                        }
+
+                        // Compressed files are listed with their sizes in the stats output
+                        if (compressedFile.gzip) {
+                            compilation.assets[`${assetName}.gz`] = createBufferAsset(compressedFile.gzip);
+                        }
+                        if (compressedFile.brotli) {
+                            compilation.assets[`${assetName}.br`] = createBufferAsset(compressedFile.brotli);
+                        }
+                    });
+            });
+        }
+    }
+
+    private shouldCompress(file: string): boolean {
+        if (/\.(gz|br)$/i.test(file)) {
+            return false;
+        }
+
+        const isMatch = (pattern: string) => minimatch(file, pattern, { dot: true, matchBase: true });
+        return this._include.some(isMatch) && !(this._options.exclude || []).some(isMatch);
+    }
+
+    private compress(file: string, content: Buffer, compilation: any): CompressedFile | null {
+        if (content.length < this._threshold) {
+            return null;
+        }
+
+        const compressedFile: CompressedFile = {
+            file: file,
+            size: content.length
+        };
+
+        if (this._options.gzip !== false) {
+            const gzip = zlib.gzipSync(content, { level: 9 });
+            if (gzip.length < content.length) {
+                compressedFile.gzip = gzip;
+            }
+        }
+
+        if (this._options.brotli !== false) {
+            const brotliZlib = zlib as BrotliZlib;
+            if (typeof brotliZlib.brotliCompressSync === 'function' && brotliZlib.constants.BROTLI_PARAM_QUALITY != null) {
+                const brotli = brotliZlib.brotliCompressSync(content, {
+                    params: {
+                        [brotliZlib.constants.BROTLI_PARAM_QUALITY]: 11
+                    }
+                });
+                if (brotli.length < content.length) {
+                    compressedFile.brotli = brotli;
+                }
+            } else if (!this._brotliWarned) {
+                this._brotliWarned = true;
+                compilation.warnings.push(
+                    new Error(`[${this.name}] Brotli compression requires Node.js 11.7.0 or later, .br files are skipped.`));
+            }
+        }
+
+        this._logger.debug(`Compressing ${file}`);
+
+        return compressedFile.gzip || compressedFile.brotli ? compressedFile : null;
+    }
+
+    private formatCompressedFiles(compressedFiles: CompressedFile[]): string {
+        const headers = ['File', 'Size', 'Gzip Size', 'Brotli Size'];
+        const rows = compressedFiles.map(compressedFile => [
+            compressedFile.file,
+            formatSize(compressedFile.size),
+            compressedFile.gzip ? formatSize(compressedFile.gzip.length) : '-',
+            compressedFile.brotli ? formatSize(compressedFile.brotli.length) : '-'
+        ]);
+        const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+        const formatRow = (row: string[]) =>
+            `  ${row.map((cell, i) => cell + ' '.repeat(widths[i] - cell.length)).join('  ')}`.replace(/\s+$/, '');
+
+        return [
+            'Compressed files:',
+            formatRow(headers),
+            ...rows.map(row => formatRow(row)),
+            ''
+        ].join('\n');
+    }
+}
+
+function createBufferAsset(content: Buffer): { size(): number; source(): Buffer } {
+    return {
+        size(): number {
+            return content.length;
+        },
+        source(): Buffer {
+            return content;
+        }
+    };
+}
@@ -0,0 +1,42 @@
+// Appends hot module replacement bootstrap code to the main entry module.
+// On dispose, the root component hosts are re-created and the platform is destroyed,
+// so the re-executed main module can bootstrap the app again in place.
+const hmrAcceptCode = `
+if (module['hot']) {
+    module['hot'].accept();
+    module['hot'].dispose(function () {
+        var ngCore = require('@angular/core');
+        var platform = ngCore.getPlatform();
+        if (!platform) {
+            return;
+        }
+
+        var oldHosts = [];
+        (platform._modules || []).forEach(function (moduleRef) {
+            var appRef = moduleRef.injector.get(ngCore.ApplicationRef);
+            appRef.components.forEach(function (componentRef) {
+                var oldHost = componentRef.location.nativeElement;
+                if (!oldHost || !oldHost.parentNode) {
+                    return;
+                }
+
+                var newHost = document.createElement(oldHost.nodeName);
+                oldHost.parentNode.insertBefore(newHost, oldHost);
+                oldHosts.push(oldHost);
+            });
+        });
+
+        platform.destroy();
+
+        oldHosts.forEach(function (oldHost) {
+            if (oldHost.parentNode) {
+                oldHost.parentNode.removeChild(oldHost);
+            }
+        });
+    });
+}
+`;
+
+export default function (this: any, content: string, map: any): void {
+    this.callback(null, `${content}\n${hmrAcceptCode}`, map);
+}
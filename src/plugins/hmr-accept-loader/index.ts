@@ -0,0 +1,3 @@
+import * as path from 'path';
+
+export const HmrAcceptLoader = require.resolve(path.join(__dirname, 'hmr-accept-loader'));
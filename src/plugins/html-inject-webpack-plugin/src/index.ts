@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import * as path from 'path';
 
 import * as minimatch from 'minimatch';
@@ -8,10 +9,22 @@ import * as parse5 from 'parse5';
 import * as webpack from 'webpack';
 
 import { HtmlInjectOptions } from '../../../interfaces';
-import { Logger, LoggerOptions, normalizeRelativePath } from '../../../utils';
+import {
+    CspHashes,
+    Logger,
+    LoggerOptions,
+    addCspHash,
+    addCspHashesFromHtml,
+    addCspNonce,
+    formatCspHashes,
+    normalizeRelativePath
+} from '../../../utils';
 
 const sourceMapUrl = require('source-map-url');
 
+// The legacy build runs before the modern build in the same multi compiler
+const legacyScriptsStore = new Map<string, string[]>();
+
 interface TagDefinition {
     tagName: string;
     attributes: { [key: string]: string | boolean };
@@ -27,10 +40,24 @@ export interface HtmlInjectWebpackPluginOptions extends HtmlInjectOptions {
     entrypoints: string[];
 
     baseHref?: string;
+    lang?: string;
     publicPath?: string;
     iconsCacheFile?: string;
     dllAssetsFile?: string;
 
+    /**
+     * The entrypoints whose scripts are injected with type="module".
+     */
+    moduleEntrypoints?: string[];
+    /**
+     * The key of the legacy scripts, shared in memory by the legacy build, to be injected with nomodule.
+     */
+    legacyScriptsKey?: string;
+    /**
+     * If set, the entrypoint scripts are shared in memory with this key instead of injecting to html.
+     */
+    legacyScriptsOut?: string;
+
     minify?: boolean | htmlMinifier.Options;
     loggerOptions?: LoggerOptions;
 }
@@ -61,6 +88,21 @@ function readFile(filename: string, compilation: webpack.compilation.Compilation
     });
 }
 
+function readFileAsBuffer(filename: string, compilation: webpack.compilation.Compilation): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        compilation.inputFileSystem.readFile(filename,
+            (err: Error, data: Buffer) => {
+                if (err) {
+                    reject(err);
+
+                    return;
+                }
+
+                resolve(data);
+            });
+    });
+}
+
 export class HtmlInjectWebpackPlugin {
     private readonly _logger: Logger;
 
@@ -76,6 +118,7 @@ export class HtmlInjectWebpackPlugin {
         compiler.hooks.emit.tapPromise(this.name, async (compilation: any) => {
             const treeAdapter = parse5.treeAdapters.default;
             let document: parse5.AST.Default.Document | null = null;
+            let htmlElement: parse5.AST.Default.Element | null = null;
             let headElement: parse5.AST.Default.Element | null = null;
             let bodyElement: parse5.AST.Default.Element | null = null;
 
@@ -129,12 +172,13 @@ export class HtmlInjectWebpackPlugin {
             }
 
             // link tag definition
-            const createLinkTagDefinition = (url: string): TagDefinition => {
+            const createLinkTagDefinition = (url: string, integrity?: string): TagDefinition => {
                 return {
                     tagName: 'link',
                     attributes: {
                         rel: 'stylesheet',
                         href: (this._options.publicPath || '') + url,
+                        ...(integrity ? { integrity: integrity, crossorigin: 'anonymous' } : {}),
                         ...customLinkAttributes
                     },
                     selfClosingTag: true
@@ -142,12 +186,16 @@ export class HtmlInjectWebpackPlugin {
             };
 
             // script tag definition
-            const createScriptTagDefinition = (url: string): TagDefinition => {
+            const createScriptTagDefinition = (url: string,
+                moduleType?: 'module' | 'nomodule',
+                integrity?: string): TagDefinition => {
                 return {
                     tagName: 'script',
                     attributes: {
-                        type: 'text/javascript',
+                        type: moduleType === 'module' ? 'module' : 'text/javascript',
+                        ...(moduleType === 'nomodule' ? { nomodule: true } : {}),
                         src: (this._options.publicPath || '') + url,
+                        ...(integrity ? { integrity: integrity, crossorigin: 'anonymous' } : {}),
                         ...customScriptAttributes
                     },
                     closeTag: true
@@ -172,6 +220,7 @@ export class HtmlInjectWebpackPlugin {
                 document = parse5.parse(inputContent, { treeAdapter }) as parse5.AST.Default.Document;
                 for (const topNode of document.childNodes) {
                     if ((topNode as parse5.AST.Default.Element).tagName === 'html') {
+                        htmlElement = topNode as parse5.AST.Default.Element;
                         for (const htmlNode of (topNode as parse5.AST.Default.Element).childNodes) {
                             if ((htmlNode as parse5.AST.Default.Element).tagName === 'head') {
                                 headElement = htmlNode as parse5.AST.Default.Element;
@@ -191,10 +240,15 @@ export class HtmlInjectWebpackPlugin {
 
             // Get all files for selected entrypoints
             const unfilteredSortedFiles: string[] = [];
+            const moduleFiles = new Set<string>();
             for (const entryName of this._options.entrypoints) {
                 const entrypoint = compilation.entrypoints.get(entryName);
                 if (entrypoint) {
-                    unfilteredSortedFiles.push(...entrypoint.getFiles());
+                    const entryFiles: string[] = entrypoint.getFiles();
+                    unfilteredSortedFiles.push(...entryFiles);
+                    if (this._options.moduleEntrypoints && this._options.moduleEntrypoints.includes(entryName)) {
+                        entryFiles.forEach(file => moduleFiles.add(file));
+                    }
                 }
             }
 
@@ -224,6 +278,56 @@ export class HtmlInjectWebpackPlugin {
                 }
             }
 
+            // Legacy scripts are injected by the modern build
+            if (this._options.legacyScriptsOut) {
+                this._logger.debug(`Sharing legacy scripts with key ${this._options.legacyScriptsOut}`);
+
+                legacyScriptsStore.set(this._options.legacyScriptsOut, scripts);
+                return;
+            }
+
+            // Subresource integrity
+            const integrityHashNames = this._options.subresourceIntegrity
+                ? Array.isArray(this._options.subresourceIntegrity) && this._options.subresourceIntegrity.length
+                    ? this._options.subresourceIntegrity
+                    : ['sha256', 'sha384']
+                : [];
+            const integrities: { [file: string]: string } = {};
+            const getIntegrity = async (file: string): Promise<string | undefined> => {
+                if (!integrityHashNames.length) {
+                    return undefined;
+                }
+
+                if (!integrities[file]) {
+                    let content: Buffer;
+                    if (compilation.assets[file]) {
+                        const source = compilation.assets[file].source();
+                        content = Buffer.isBuffer(source) ? source : Buffer.from(source, 'utf8');
+                    } else {
+                        // Dll and legacy assets are read from the output directory
+                        content = await readFileAsBuffer(path.resolve(this._options.outDir, file), compilation);
+                    }
+
+                    integrities[file] = integrityHashNames
+                        .map(hashName => `${hashName}-${createHash(hashName).update(content).digest('base64')}`)
+                        .join(' ');
+                }
+
+                return integrities[file];
+            };
+
+            // Lang
+            if (htmlElement && this._options.lang) {
+                this._logger.debug(`Injecting lang attribute: '${this._options.lang}'`);
+
+                const langAttribute = htmlElement.attrs.find(attribute => attribute.name === 'lang');
+                if (langAttribute) {
+                    langAttribute.value = this._options.lang;
+                } else {
+                    htmlElement.attrs.push({ name: 'lang', value: this._options.lang });
+                }
+            }
+
             // BaseHref
             let separateBaseHrefOut = false;
             let baseHrefOutRelative: string | null = null;
@@ -366,13 +470,14 @@ export class HtmlInjectWebpackPlugin {
                 // resource hints
                 // See - https://w3c.github.io/preload/#link-type-preload
                 // See - https://hackernoon.com/10-things-i-learned-making-the-fastest-site-in-the-world-18a0e1cdf4a7
-                const createResourceHintTag = (href: string, rel: string): TagDefinition | null => {
+                const createResourceHintTag = (href: string, rel: string, integrity?: string): TagDefinition | null => {
                     const tag: TagDefinition = {
                         tagName: 'link',
                         selfClosingTag: true,
                         attributes: {
                             rel: rel,
                             href: href,
+                            ...(integrity ? { integrity: integrity, crossorigin: 'anonymous' } : {}),
                             ...customResourceHintAttributes
                         }
                     };
@@ -392,12 +497,13 @@ export class HtmlInjectWebpackPlugin {
                     return tag;
                 };
 
-                const createReourceHints = (category: string, url: string, f: string): void => {
+                const createReourceHints = async (category: string, url: string, f: string): Promise<void> => {
                     if (!minimatch(url, f)) {
                         return;
                     }
 
-                    const tagDefinition = createResourceHintTag((this._options.publicPath || '') + url, category);
+                    const tagDefinition =
+                        createResourceHintTag((this._options.publicPath || '') + url, category, await getIntegrity(url));
                     if (tagDefinition == null) {
                         return;
                     }
@@ -426,23 +532,17 @@ export class HtmlInjectWebpackPlugin {
                     }
                 };
 
-                preloads.forEach(f => {
-                    for (const url of stylesheets) {
-                        createReourceHints('preload', url, f);
+                for (const f of preloads) {
+                    for (const url of [...stylesheets, ...scripts]) {
+                        await createReourceHints('preload', url, f);
                     }
-                    for (const url of scripts) {
-                        createReourceHints('preload', url, f);
-                    }
-                });
+                }
 
-                prefetches.forEach(f => {
-                    for (const url of stylesheets) {
-                        createReourceHints('prefetch', url, f);
-                    }
-                    for (const url of scripts) {
-                        createReourceHints('prefetch', url, f);
+                for (const f of prefetches) {
+                    for (const url of [...stylesheets, ...scripts]) {
+                        await createReourceHints('prefetch', url, f);
                     }
-                });
+                }
 
                 if (separateResourceHintsOut && resourceHintsOutRelative) {
                     const content = resourceHintTags.join('\n');
@@ -474,7 +574,7 @@ export class HtmlInjectWebpackPlugin {
                 });
 
                 for (const stylesheet of cssAssets) {
-                    const tagDefinition = createLinkTagDefinition(stylesheet);
+                    const tagDefinition = createLinkTagDefinition(stylesheet, await getIntegrity(stylesheet));
 
                     if (headElement) {
                         this._logger.debug(`Injecting dll stylesheet: '${stylesheet}'`);
@@ -501,7 +601,7 @@ export class HtmlInjectWebpackPlugin {
                 }
 
                 for (const script of scriptAssets) {
-                    const tagDefinition = createScriptTagDefinition(script);
+                    const tagDefinition = createScriptTagDefinition(script, undefined, await getIntegrity(script));
 
                     if (bodyElement) {
                         this._logger.debug(`Injecting dll script: '${script}'`);
@@ -530,6 +630,7 @@ export class HtmlInjectWebpackPlugin {
 
             // Runtime chunk
             let runtimeTagRawContent = '';
+            let runtimeInlineSource = '';
             if (this._options.runtimeChunkInline && runtimeFileName &&
                 compilation.assets[runtimeFileName]) {
                 const asset = compilation.assets[runtimeFileName];
@@ -538,11 +639,13 @@ export class HtmlInjectWebpackPlugin {
                     source = source.toString();
                 }
                 source = `\n${sourceMapUrl.removeFrom(source)}\n`;
+                runtimeInlineSource = source;
 
                 const tagDefinition: TagDefinition = {
                     tagName: 'script',
                     attributes: {
-                        type: 'text/javascript'
+                        type: moduleFiles.has(runtimeFileName) ? 'module' : 'text/javascript',
+                        ...(this._options.cspNonce ? { nonce: this._options.cspNonce } : {})
                     },
                     innerHtml: source,
                     closeTag: true
@@ -577,7 +680,7 @@ export class HtmlInjectWebpackPlugin {
 
             // Styles
             for (const stylesheet of stylesheets) {
-                const tagDefinition = createLinkTagDefinition(stylesheet);
+                const tagDefinition = createLinkTagDefinition(stylesheet, await getIntegrity(stylesheet));
 
                 if (headElement) {
                     this._logger.debug(`Injecting stylesheet: '${stylesheet}'`);
@@ -605,7 +708,9 @@ export class HtmlInjectWebpackPlugin {
 
             // Scripts
             for (const script of scripts) {
-                const tagDefinition = createScriptTagDefinition(script);
+                const tagDefinition = createScriptTagDefinition(script,
+                    moduleFiles.has(script) ? 'module' : undefined,
+                    await getIntegrity(script));
 
                 if (bodyElement) {
                     this._logger.debug(`Injecting script: '${script}'`);
@@ -631,6 +736,45 @@ export class HtmlInjectWebpackPlugin {
                 }
             }
 
+            // Legacy scripts
+            if (this._options.legacyScriptsKey) {
+                const legacyScripts = legacyScriptsStore.get(this._options.legacyScriptsKey) || [];
+                if (!legacyScriptsStore.has(this._options.legacyScriptsKey)) {
+                    compilation.errors.push(new Error(`[${this.name}] The legacy scripts are not found for ${
+                        this._options.legacyScriptsKey}, the legacy build must be run before.`));
+                }
+
+                for (const script of legacyScripts) {
+                    const tagDefinition = createScriptTagDefinition(script, 'nomodule', await getIntegrity(script));
+
+                    if (bodyElement) {
+                        this._logger.debug(`Injecting legacy script: '${script}'`);
+
+                        const attributes = Object.keys(tagDefinition.attributes).map(key => {
+                            return {
+                                name: key,
+                                value: tagDefinition.attributes[key] === true ? '' : tagDefinition.attributes[key] as string
+                            };
+                        });
+
+                        const element = treeAdapter.createElement(
+                            tagDefinition.tagName,
+                            undefined as any,
+                            attributes
+                        );
+
+                        treeAdapter.appendChild(bodyElement, element);
+                    }
+
+                    if (separateScriptsOut && scriptsOutRelative) {
+                        this._logger.debug(`Injecting legacy script: '${script}' to ${scriptsOutRelative}`);
+
+                        const content = HtmlInjectWebpackPlugin.createHtmlTag(tagDefinition);
+                        scriptTags.push(content);
+                    }
+                }
+            }
+
             if (separateStylesOut && stylesOutRelative) {
                 const content = styleTags.join('\n');
                 additionalAssetsEntry[stylesOutRelative] = new RawSource(content);
@@ -639,6 +783,16 @@ export class HtmlInjectWebpackPlugin {
                 const content = scriptTags.join('\n');
                 additionalAssetsEntry[scriptsOutRelative] = new RawSource(content);
             }
+            // Nonce placeholder for inline scripts and styles
+            if (document && this._options.cspNonce) {
+                addCspNonce(document, this._options.cspNonce);
+            }
+
+            const cspHashes: CspHashes = { scriptHashes: [], styleHashes: [] };
+            if (runtimeInlineSource && separateRuntimeInlineOut) {
+                addCspHash(cspHashes.scriptHashes, runtimeInlineSource);
+            }
+
             if (document && indexRelative) {
                 let indexContent = parse5.serialize(document, { treeAdapter });
 
@@ -654,6 +808,22 @@ export class HtmlInjectWebpackPlugin {
 
                 this._logger.debug(`Injecting '${indexRelative}'`);
                 compilation.assets[indexRelative] = new RawSource(indexContent);
+
+                if (this._options.cspHashesOut) {
+                    addCspHashesFromHtml(cspHashes, indexContent);
+                }
+            }
+
+            // Content security policy hashes
+            if (this._options.cspHashesOut) {
+                const filePath = path.isAbsolute(this._options.cspHashesOut)
+                    ? path.resolve(this._options.cspHashesOut)
+                    : path.resolve(this._options.outDir, this._options.cspHashesOut);
+                const cspHashesOutRelative = normalizeRelativePath(path.relative(this._options.outDir, filePath));
+                this._logger.debug(`Writing inline script and style hashes to ${cspHashesOutRelative}`);
+
+                const content = formatCspHashes(cspHashes, cspHashesOutRelative);
+                additionalAssetsEntry[cspHashesOutRelative] = new RawSource(content);
             }
 
             Object.keys(additionalAssetsEntry).forEach(key => {
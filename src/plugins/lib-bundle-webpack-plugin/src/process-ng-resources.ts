@@ -5,9 +5,8 @@ import { copy, existsSync, readFile, readJson, writeFile } from 'fs-extra';
 import * as denodeify from 'denodeify';
 import * as glob from 'glob';
 import { minify as minifyHtml } from 'html-minifier';
-import * as sass from 'node-sass';
 
-import { UnSupportedStyleExtError } from '../../../error-models';
+import { renderStyle } from './render-style';
 
 const cssnano = require('cssnano');
 const postcss = require('postcss');
@@ -156,25 +155,8 @@ async function copyStyleUrls(source: string,
         const styleSourceFilePath = await findResourcePath(styleUrl, resourceId, srcDir, outDir);
         const styleDestFilePath = path.resolve(path.dirname(resourceId), styleUrl);
 
-        let styleContent: string | Buffer;
-        if (/\.scss$|\.sass$/i.test(styleSourceFilePath)) {
-            const result = await new Promise<{
-                css: Buffer;
-            }>((resolve, reject) => {
-                sass.render({ file: styleSourceFilePath, includePaths: includePaths },
-                    (err: Error, sassResult: any) => {
-                        if (err) {
-                            return reject(err);
-                        }
-                        return resolve(sassResult);
-                    });
-            });
-            styleContent = result.css;
-        } else if (/\.css$/i.test(styleSourceFilePath)) {
-            styleContent = await readFile(styleSourceFilePath, 'utf-8');
-        } else {
-            throw new UnSupportedStyleExtError(`The ${styleSourceFilePath} is not supported style format.`);
-        }
+        const result = await renderStyle(styleSourceFilePath, { includePaths: includePaths });
+        const styleContent = result.css;
 
         if (copyResources) {
             await writeFile(styleDestFilePath, styleContent);
@@ -256,8 +238,8 @@ async function findResourcePath(url: string, resourceId: string, srcDir: string,
     const filePath = path.resolve(srcDir, relOutPath, url);
     if (existsSync(filePath)) {
         return filePath;
-    } else if (/\.(css|scss|sass|less)$/i.test(filePath)) {
-        const failbackExts = ['.css', '.scss', '.sass', '.less'];
+    } else if (/\.(css|scss|sass|less|styl)$/i.test(filePath)) {
+        const failbackExts = ['.css', '.scss', '.sass', '.less', '.styl'];
         const curExt = path.parse(filePath).ext;
         for (const ext of failbackExts) {
             if (ext === curExt) {
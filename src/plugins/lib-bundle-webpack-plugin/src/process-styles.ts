@@ -6,7 +6,8 @@ import { AngularBuildContext, GlobalParsedEntry, LibProjectConfigInternal } from
 import { InternalError, InvalidConfigError, UnSupportedStyleExtError } from '../../../error-models';
 import { Logger } from '../../../utils';
 
-import * as sass from 'node-sass';
+import { renderStyle } from './render-style';
+
 const autoprefixer = require('autoprefixer');
 const cssnano = require('cssnano');
 const postcss = require('postcss');
@@ -51,25 +52,11 @@ export async function
         const input = styleParsedEntry.paths[0];
         const dest = path.resolve(outputPath, styleParsedEntry.entry);
 
-        if (/\.scss$|\.sass$/i.test(input) && !/\.scss$|\.sass$/i.test(dest)) {
-            const result = await new Promise<{
-                css: Buffer;
-                map: Buffer;
-            }>((resolve, reject) => {
-                sass.render({
-                    file: input,
-                    sourceMap: sourceMap,
-                    outFile: dest,
-                    includePaths: includePaths,
-                    // bootstrap-sass requires a minimum precision of 8
-                    precision: 8
-                },
-                    (err: Error, sassResult: any) => {
-                        if (err) {
-                            return reject(err);
-                        }
-                        return resolve(sassResult);
-                    });
+        if (/\.(scss|sass|less|styl)$/i.test(input) && !/\.(scss|sass|less|styl)$/i.test(dest)) {
+            const result = await renderStyle(input, {
+                includePaths: includePaths,
+                sourceMap: sourceMap,
+                outFile: dest
             });
 
             await ensureDir(path.dirname(dest));
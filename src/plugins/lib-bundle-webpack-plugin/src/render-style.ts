@@ -0,0 +1,81 @@
+import * as path from 'path';
+
+import { readFile } from 'fs-extra';
+import * as sass from 'node-sass';
+
+import { UnSupportedStyleExtError } from '../../../error-models';
+
+export interface RenderStyleOptions {
+    includePaths: string[];
+    sourceMap?: boolean;
+    outFile?: string;
+}
+
+export interface RenderStyleResult {
+    css: string | Buffer;
+    map?: string | Buffer;
+}
+
+export async function renderStyle(filePath: string, options: RenderStyleOptions): Promise<RenderStyleResult> {
+    if (/\.scss$|\.sass$/i.test(filePath)) {
+        return await new Promise<RenderStyleResult>((resolve, reject) => {
+            sass.render({
+                file: filePath,
+                sourceMap: options.sourceMap,
+                outFile: options.outFile,
+                includePaths: options.includePaths,
+                // bootstrap-sass requires a minimum precision of 8
+                precision: 8
+            },
+                (err: Error, sassResult: any) => {
+                    if (err) {
+                        return reject(err);
+                    }
+                    return resolve(sassResult);
+                });
+        });
+    } else if (/\.less$/i.test(filePath)) {
+        const less = require('less');
+        const content = await readFile(filePath, 'utf-8');
+        const lessResult = await less.render(content, {
+            filename: filePath,
+            paths: [path.dirname(filePath), ...options.includePaths],
+            javascriptEnabled: true,
+            sourceMap: options.sourceMap ? { outputSourceFiles: true } : undefined
+        });
+
+        return {
+            css: lessResult.css,
+            map: lessResult.map
+        };
+    } else if (/\.styl$/i.test(filePath)) {
+        const stylus = require('stylus');
+        const content = await readFile(filePath, 'utf-8');
+        const style = stylus(content)
+            .set('filename', filePath)
+            .set('paths', [path.dirname(filePath), ...options.includePaths]);
+        if (options.sourceMap) {
+            style.set('sourcemap', { comment: false });
+        }
+
+        const css = await new Promise<string>((resolve, reject) => {
+            style.render((err: Error, stylusResult: string) => {
+                if (err) {
+                    return reject(err);
+                }
+                return resolve(stylusResult);
+            });
+        });
+
+        return {
+            css: css,
+            map: style.sourcemap ? JSON.stringify(style.sourcemap) : undefined
+        };
+    } else if (/\.css$/i.test(filePath)) {
+        return {
+            css: await readFile(filePath, 'utf-8')
+        };
+    } else {
+        throw new UnSupportedStyleExtError(`The ${filePath} is not supported style format.`);
+    }
+}
@@ -0,0 +1,296 @@
+import { fork } from 'child_process';
+import * as path from 'path';
+
+import { existsSync, readFile } from 'fs-extra';
+import * as parse5 from 'parse5';
+import * as webpack from 'webpack';
+import { RawSource } from 'webpack-sources';
+
+import { InternalError } from '../../../error-models';
+import {
+    CspHashes,
+    Logger,
+    LoggerOptions,
+    addCspHashesFromHtml,
+    addCspNonce,
+    formatCspHashes,
+    formatSize,
+    normalizeRelativePath,
+    parseCspHashes,
+    toStageTap
+} from '../../../utils';
+
+import { RenderRoutesMessage, RenderRoutesResultMessage, RenderRouteResult } from './render-routes-worker';
+
+export interface PrerenderWebpackPluginOptions {
+    /**
+     * The routes to be prerendered.
+     */
+    routes?: string[];
+    /**
+     * Absolute path for the file listing the routes to be prerendered.
+     */
+    routesFile?: string;
+    /**
+     * The route to be rendered into index html file as app shell.
+     */
+    appShellRoute?: string;
+    /**
+     * The timeout in milliseconds to render each route, default is 60000.
+     */
+    timeout?: number;
+    /**
+     * The nonce placeholder to be added to inline scripts and styles of the rendered html.
+     */
+    cspNonce?: string;
+    /**
+     * Output file for sha256 hashes of inline scripts and styles, the hashes of the rendered html are merged into it.
+     */
+    cspHashesOut?: string;
+    /**
+     * Absolute path for server bundle entry file.
+     */
+    serverBundle: string;
+    /**
+     * The index html file name relative to output directory.
+     */
+    index: string;
+    projectRoot: string;
+    loggerOptions?: LoggerOptions;
+}
+
+export class PrerenderWebpackPlugin {
+    private readonly _logger: Logger;
+
+    get name(): string {
+        return 'prerender-webpack-plugin';
+    }
+
+    constructor(private readonly _options: PrerenderWebpackPluginOptions) {
+        if (!_options || !_options.serverBundle) {
+            throw new InternalError(`[${this.name}] The 'options.serverBundle' can't be null or empty.`);
+        }
+
+        this._logger = new Logger({ name: `[${this.name}]`, ...this._options.loggerOptions });
+    }
+
+    apply(compiler: webpack.Compiler): void {
+        // Rendered after index.html is injected and before the assets are compressed
+        compiler.hooks.emit.tapPromise(toStageTap({ name: this.name, stage: 100 }), async (compilation: any) => {
+            const routes = await this.getRoutes();
+            const appShellRoute = this._options.appShellRoute ? normalizeRoute(this._options.appShellRoute) : undefined;
+            if (!routes.length && !appShellRoute) {
+                return;
+            }
+
+            const indexAsset = compilation.assets[this._options.index];
+            if (!indexAsset) {
+                compilation.errors.push(
+                    new Error(`[${this.name}] The index file '${this._options.index}' is not emitted, prerendering is skipped.`));
+                return;
+            }
+
+            if (!existsSync(this._options.serverBundle)) {
+                compilation.errors.push(
+                    new Error(`[${this.name}] The server bundle is not found at ${this._options.serverBundle
+                        }, prerendering is skipped.`));
+                return;
+            }
+
+            let results: RenderRouteResult[];
+            try {
+                results = await this.renderRoutes({
+                    serverBundle: this._options.serverBundle,
+                    document: indexAsset.source().toString(),
+                    routes: appShellRoute && !routes.includes(appShellRoute) ? [appShellRoute, ...routes] : routes,
+                    projectRoot: this._options.projectRoot
+                });
+            } catch (err) {
+                compilation.errors.push(new Error(`[${this.name}] ${err.message || err}`));
+                return;
+            }
+
+            const rows: string[][] = [];
+            const renderedHtmls: string[] = [];
+            let appShellRendered = false;
+
+            // The app shell, including the component styles inlined by the server renderer, replaces index html content
+            const appShellResult = results.find(result => result.route === appShellRoute);
+            if (appShellResult) {
+                if (appShellResult.error != null || appShellResult.html == null) {
+                    compilation.errors.push(
+                        new Error(`[${this.name}] Failed to render app shell route '${appShellResult.route}', ${
+                            appShellResult.error}`));
+                } else {
+                    const html = this.addCspNonce(appShellResult.html);
+                    compilation.assets[this._options.index] = new RawSource(html);
+                    renderedHtmls.push(html);
+                    appShellRendered = true;
+                    rows.push([`${appShellResult.route} (app shell)`, this._options.index,
+                        formatSize(Buffer.byteLength(html, 'utf8'))]);
+                }
+            }
+
+            results.filter(result => routes.includes(result.route)).forEach(result => {
+                if (result.error != null || result.html == null) {
+                    if (result !== appShellResult) {
+                        compilation.errors.push(
+                            new Error(`[${this.name}] Failed to prerender route '${result.route}', ${result.error}`));
+                    }
+                    return;
+                }
+
+                const file = this.getOutputFile(result.route);
+                if (file === this._options.index && appShellRendered) {
+                    compilation.warnings.push(
+                        new Error(`[${this.name}] The prerendered route '${result.route}' overrides the app shell in ${file}.`));
+                }
+
+                const html = this.addCspNonce(result.html);
+                compilation.assets[file] = new RawSource(html);
+                renderedHtmls.push(html);
+                rows.push([result.route, file, formatSize(Buffer.byteLength(html, 'utf8'))]);
+            });
+
+            // The csp hashes written by html inject plugin don't include the inline styles added by the server renderer
+            if (this._options.cspHashesOut && renderedHtmls.length) {
+                const outDir = compiler.options.output && compiler.options.output.path ? compiler.options.output.path : '';
+                const cspHashesOutRelative = path.isAbsolute(this._options.cspHashesOut)
+                    ? normalizeRelativePath(path.relative(outDir, this._options.cspHashesOut))
+                    : normalizeRelativePath(this._options.cspHashesOut);
+                const cspHashesAsset = compilation.assets[cspHashesOutRelative];
+                const cspHashes: CspHashes = cspHashesAsset
+                    ? parseCspHashes(cspHashesAsset.source().toString(), cspHashesOutRelative)
+                    : { scriptHashes: [], styleHashes: [] };
+                renderedHtmls.forEach(html => addCspHashesFromHtml(cspHashes, html));
+
+                this._logger.debug(`Adding inline script and style hashes of rendered html to ${cspHashesOutRelative}`);
+                compilation.assets[cspHashesOutRelative] = new RawSource(formatCspHashes(cspHashes, cspHashesOutRelative));
+            }
+
+            if (rows.length) {
+                this._logger.info(this.formatRenderedRoutes(rows));
+            }
+        });
+    }
+
+    private async getRoutes(): Promise<string[]> {
+        const routes = [...(this._options.routes || [])];
+        if (this._options.routesFile) {
+            const content = await readFile(this._options.routesFile, 'utf-8');
+            routes.push(...content.split(/\r?\n/));
+        }
+
+        return routes
+            .filter(route => !!route.trim())
+            .map(route => normalizeRoute(route))
+            .filter((route, index, arr) => arr.indexOf(route) === index);
+    }
+
+    private addCspNonce(html: string): string {
+        if (!this._options.cspNonce) {
+            return html;
+        }
+
+        const treeAdapter = parse5.treeAdapters.default;
+        const document = parse5.parse(html, { treeAdapter }) as parse5.AST.Default.Document;
+        addCspNonce(document, this._options.cspNonce);
+
+        return parse5.serialize(document, { treeAdapter });
+    }
+
+    // i.e. / -> index.html, /about -> about/index.html
+    private getOutputFile(route: string): string {
+        const routePath = route.replace(/[?#].*$/, '').replace(/^\/+|\/+$/g, '');
+        return routePath
+            ? normalizeRelativePath(path.join(routePath, 'index.html'))
+            : this._options.index;
+    }
+
+    // The routes after a hanging or crashed route are rendered in a new process
+    private async renderRoutes(message: RenderRoutesMessage): Promise<RenderRouteResult[]> {
+        const results: RenderRouteResult[] = [];
+        while (results.length < message.routes.length) {
+            const pendingRoutes = message.routes.slice(results.length);
+            results.push(...await this.renderRoutesInProcess({ ...message, routes: pendingRoutes }));
+        }
+
+        return results;
+    }
+
+    // Resolves with the results of the routes rendered before the process exits, at least one route is resolved
+    private renderRoutesInProcess(message: RenderRoutesMessage): Promise<RenderRouteResult[]> {
+        return new Promise<RenderRouteResult[]>((resolve, reject) => {
+            const child = fork(require.resolve('./render-routes-worker'), [], { cwd: this._options.projectRoot });
+            const timeout = typeof this._options.timeout === 'number' ? this._options.timeout : 60000;
+
+            const results: RenderRouteResult[] = [];
+            let errorMessage: string | null = null;
+            let timedOut = false;
+
+            // The server bundle may keep pending macrotasks, i.e. timers or sockets, so the worker is killed
+            // if a route is not rendered within timeout
+            let timer: NodeJS.Timer;
+            const startTimer = () => {
+                timer = setTimeout(() => {
+                    timedOut = true;
+                    process.kill(child.pid);
+                },
+                    timeout);
+            };
+
+            child.on('message', (resultMessage: RenderRoutesResultMessage) => {
+                if (resultMessage.result) {
+                    results.push(resultMessage.result);
+                    clearTimeout(timer);
+                    startTimer();
+                } else if (resultMessage.error) {
+                    errorMessage = resultMessage.error;
+                }
+            });
+            child.once('error', err => {
+                clearTimeout(timer);
+                reject(err);
+            });
+            child.once('exit', code => {
+                clearTimeout(timer);
+                if (errorMessage) {
+                    reject(new Error(errorMessage));
+                    return;
+                }
+
+                if (results.length < message.routes.length) {
+                    results.push({
+                        route: message.routes[results.length],
+                        error: timedOut
+                            ? `The prerender process is killed after timeout of ${timeout}ms.`
+                            : `The prerender process exited with code ${code}.`
+                    });
+                }
+                resolve(results);
+            });
+
+            startTimer();
+            child.send(message);
+        });
+    }
+
+    private formatRenderedRoutes(rows: string[][]): string {
+        const headers = ['Route', 'File', 'Size'];
+        const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+        const formatRow = (row: string[]) =>
+            `  ${row.map((cell, i) => cell + ' '.repeat(widths[i] - cell.length)).join('  ')}`.replace(/\s+$/, '');
+
+        return [
+            'Prerendered routes:',
+            formatRow(headers),
+            ...rows.map(row => formatRow(row)),
+            ''
+        ].join('\n');
+    }
+}
+
+function normalizeRoute(route: string): string {
+    route = route.trim();
+    return route.startsWith('/') ? route : `/${route}`;
+}
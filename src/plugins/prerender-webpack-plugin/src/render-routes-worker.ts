@@ -0,0 +1,83 @@
+import * as resolve from 'resolve';
+
+export interface RenderRoutesMessage {
+    serverBundle: string;
+    document: string;
+    routes: string[];
+    projectRoot: string;
+}
+
+export interface RenderRouteResult {
+    route: string;
+    html?: string;
+    error?: string;
+}
+
+export interface RenderRoutesResultMessage {
+    result?: RenderRouteResult;
+    error?: string;
+}
+
+// Renders the routes with the server bundle in a child process forked by PrerenderWebpackPlugin,
+// so that the server bundle is freshly loaded on each build. The result of each route is sent as soon as
+// it is rendered, so that the rendered routes are kept if the process is killed on a hanging route.
+process.once('message', (message: RenderRoutesMessage) => {
+    renderRoutes(message, result => sendResultMessage({ result: result }))
+        .then(() => process.exit(0))
+        .catch(err => sendResultMessage({ error: err.stack || err.message || `${err}` })
+            .then(() => process.exit(-1)));
+});
+
+function sendResultMessage(resultMessage: RenderRoutesResultMessage): Promise<void> {
+    return new Promise<void>(onSent => {
+        // The send function is only available in the process forked with ipc channel
+        if (!process.send) {
+            onSent();
+            return;
+        }
+
+        process.send(resultMessage, () => onSent());
+    });
+}
+
+async function renderRoutes(message: RenderRoutesMessage,
+    onRendered: (result: RenderRouteResult) => Promise<void>): Promise<void> {
+    const requireFromProject = (id: string) => require(resolve.sync(id, { basedir: message.projectRoot }));
+
+    try {
+        requireFromProject('zone.js/dist/zone-node');
+    } catch (err) {
+        // The server bundle may include zone.js itself
+    }
+
+    const platformServer = requireFromProject('@angular/platform-server');
+    const serverBundle = require(message.serverBundle);
+
+    const extraProviders: any[] = [];
+    if (serverBundle.LAZY_MODULE_MAP) {
+        const moduleMapLoader = requireFromProject('@nguniversal/module-map-ngfactory-loader');
+        extraProviders.push(moduleMapLoader.provideModuleMap(serverBundle.LAZY_MODULE_MAP));
+    }
+
+    let render: (options: { document: string; url: string; extraProviders: any[] }) => Promise<string>;
+    if (serverBundle.AppServerModuleNgFactory) {
+        render = options => platformServer.renderModuleFactory(serverBundle.AppServerModuleNgFactory, options);
+    } else if (serverBundle.AppServerModule) {
+        render = options => platformServer.renderModule(serverBundle.AppServerModule, options);
+    } else {
+        throw new Error("The server bundle must export 'AppServerModuleNgFactory' or 'AppServerModule'.");
+    }
+
+    for (const route of message.routes) {
+        try {
+            const html = await render({
+                document: message.document,
+                url: route,
+                extraProviders: extraProviders
+            });
+            await onRendered({ route, html });
+        } catch (err) {
+            await onRendered({ route, error: err.message || `${err}` });
+        }
+    }
+}
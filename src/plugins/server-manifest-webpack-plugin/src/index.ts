@@ -0,0 +1,101 @@
+import * as path from 'path';
+
+import * as webpack from 'webpack';
+
+import { InternalError } from '../../../error-models';
+import { Logger, LoggerOptions, normalizeRelativePath } from '../../../utils';
+
+export interface ServerManifestWebpackPluginOptions {
+    /**
+     * Absolute path for server manifest file.
+     */
+    path: string;
+    /**
+     * Absolute path for server bundle entry file.
+     */
+    serverBundle: string;
+    /**
+     * The index html file name relative to browser output directory.
+     */
+    index?: string;
+    locale?: string;
+    baseHref?: string;
+    loggerOptions?: LoggerOptions;
+}
+
+export interface ServerManifest {
+    /**
+     * The server bundle entry file, relative to manifest file directory.
+     */
+    serverBundle: string;
+    /**
+     * The browser output directory, relative to manifest file directory.
+     */
+    browserOutputPath: string;
+    /**
+     * The index html file, relative to browser output directory.
+     */
+    index?: string;
+    /**
+     * The browser assets, relative to browser output directory.
+     */
+    assets: string[];
+    locale?: string;
+    baseHref?: string;
+}
+
+export class ServerManifestWebpackPlugin {
+    private readonly _logger: Logger;
+
+    get name(): string {
+        return 'server-manifest-webpack-plugin';
+    }
+
+    constructor(private readonly _options: ServerManifestWebpackPluginOptions) {
+        if (!_options || !_options.path) {
+            throw new InternalError(`[${this.name}] The 'options.path' can't be null or empty.`);
+        }
+
+        this._logger = new Logger({ name: `[${this.name}]`, ...this._options.loggerOptions });
+    }
+
+    apply(compiler: webpack.Compiler): void {
+        compiler.hooks.afterEmit.tapPromise(this.name, async (compilation: any) => {
+            const manifestPath = this._options.path;
+            const manifestDir = path.dirname(manifestPath);
+            const browserOutputPath = compilation.outputOptions.path as string;
+
+            const manifest: ServerManifest = {
+                serverBundle: normalizeRelativePath(path.relative(manifestDir, this._options.serverBundle)),
+                browserOutputPath: normalizeRelativePath(path.relative(manifestDir, browserOutputPath)),
+                index: this._options.index,
+                assets: Object.keys(compilation.assets)
+                    .filter(assetName => !/\.(map|gz|br)$/.test(assetName))
+                    .sort(),
+                locale: this._options.locale,
+                baseHref: this._options.baseHref
+            };
+
+            const content = Buffer.from(JSON.stringify(manifest, null, 2), 'utf8');
+            this._logger.debug(`Emitting ${path.basename(manifestPath)}`);
+            await new Promise((resolve, reject) => {
+                compiler.outputFileSystem.mkdirp(manifestDir,
+                    (err: Error) => {
+                        if (err) {
+                            reject(err);
+                            return;
+                        }
+
+                        compiler.outputFileSystem.writeFile(manifestPath, content, (writeErr: Error) => {
+                            if (writeErr) {
+                                reject(writeErr);
+                                return;
+                            }
+
+                            resolve();
+                        });
+                    });
+            });
+        });
+    }
+}
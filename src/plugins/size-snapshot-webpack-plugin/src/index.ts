@@ -0,0 +1,236 @@
+import * as path from 'path';
+import { gzipSync } from 'zlib';
+
+import { existsSync } from 'fs-extra';
+import * as webpack from 'webpack';
+
+import { InternalError } from '../../../error-models';
+import { Logger, LoggerOptions, colorize, formatSize, normalizeRelativePath, readJsonSync } from '../../../utils';
+
+export interface SizeSnapshotWebpackPluginOptions {
+    /**
+     * Absolute path for size snapshot file.
+     */
+    path: string;
+    /**
+     * Absolute path for baseline size snapshot file to compare with.
+     */
+    baseline?: string;
+    loggerOptions?: LoggerOptions;
+}
+
+export interface SizeSnapshotEntry {
+    size: number;
+    gzipSize: number;
+}
+
+export interface SizeSnapshot {
+    chunks: { [name: string]: SizeSnapshotEntry };
+    assets: { [name: string]: SizeSnapshotEntry };
+}
+
+export class SizeSnapshotWebpackPlugin {
+    private readonly _logger: Logger;
+    private _previousSnapshot: SizeSnapshot | null = null;
+
+    get name(): string {
+        return 'size-snapshot-webpack-plugin';
+    }
+
+    constructor(private readonly _options: SizeSnapshotWebpackPluginOptions) {
+        if (!_options || !_options.path) {
+            throw new InternalError(`[${this.name}] The 'options.path' can't be null or empty.`);
+        }
+
+        this._logger = new Logger({ name: `[${this.name}]`, ...this._options.loggerOptions });
+    }
+
+    apply(compiler: webpack.Compiler): void {
+        // The previous snapshot must be read before the output directory is cleaned
+        const baselinePath = this._options.baseline || this._options.path;
+        this._previousSnapshot = this.readSnapshot(baselinePath);
+
+        compiler.hooks.afterEmit.tapPromise(this.name, async (compilation: any) => {
+            const snapshot = this.createSnapshot(compilation);
+
+            if (this._previousSnapshot) {
+                this._logger.info(this.formatDiff(this._previousSnapshot, snapshot, baselinePath));
+            }
+
+            const content = Buffer.from(JSON.stringify(snapshot, null, 2), 'utf8');
+            const snapshotPath = this._options.path;
+            this._logger.debug(`Emitting ${path.basename(snapshotPath)}`);
+            await new Promise((resolve, reject) => {
+                compiler.outputFileSystem.mkdirp(path.dirname(snapshotPath),
+                    (err: Error) => {
+                        if (err) {
+                            reject(err);
+                            return;
+                        }
+
+                        compiler.outputFileSystem.writeFile(snapshotPath, content, (writeErr: Error) => {
+                            if (writeErr) {
+                                reject(writeErr);
+                                return;
+                            }
+
+                            resolve();
+                        });
+                    });
+            });
+
+            // In watch mode, next rebuild is compared with this build
+            if (!this._options.baseline) {
+                this._previousSnapshot = snapshot;
+            }
+        });
+    }
+
+    private readSnapshot(snapshotPath: string): SizeSnapshot | null {
+        if (!existsSync(snapshotPath)) {
+            if (this._options.baseline) {
+                this._logger.warn(`The baseline size snapshot file does not exist at ${snapshotPath}.`);
+            }
+
+            return null;
+        }
+
+        try {
+            const snapshot = readJsonSync(snapshotPath) as SizeSnapshot;
+            if (snapshot && typeof snapshot.assets === 'object' && typeof snapshot.chunks === 'object') {
+                return snapshot;
+            }
+        } catch (err) {
+            this._logger.debug(`Could not read the size snapshot file, ${err.message}`);
+        }
+
+        this._logger.warn(`Invalid size snapshot file, ${snapshotPath}.`);
+        return null;
+    }
+
+    private createSnapshot(compilation: any): SizeSnapshot {
+        const assetSizes: { [name: string]: SizeSnapshotEntry } = {};
+        const getAssetSize = (assetName: string) => {
+            if (!assetSizes[assetName]) {
+                const source = compilation.assets[assetName].source();
+                const buffer = Buffer.isBuffer(source) ? source : Buffer.from(source, 'utf8');
+                assetSizes[assetName] = {
+                    size: buffer.length,
+                    gzipSize: gzipSync(buffer).length
+                };
+            }
+
+            return assetSizes[assetName];
+        };
+
+        const snapshot: SizeSnapshot = {
+            chunks: {},
+            assets: {}
+        };
+
+        Object.keys(compilation.assets)
+            .filter(assetName => !/\.(map|gz|br)$/.test(assetName))
+            .sort()
+            .forEach(assetName => {
+                snapshot.assets[stripHash(assetName)] = getAssetSize(assetName);
+            });
+
+        (compilation.chunks as any[]).forEach(chunk => {
+            const files = (chunk.files as string[]).filter(file => !file.endsWith('.map') && compilation.assets[file]);
+            snapshot.chunks[chunk.name || `${chunk.id}`] = files.reduce((total, file) => {
+                const assetSize = getAssetSize(file);
+                return {
+                    size: total.size + assetSize.size,
+                    gzipSize: total.gzipSize + assetSize.gzipSize
+                };
+            },
+                { size: 0, gzipSize: 0 });
+        });
+
+        return snapshot;
+    }
+
+    private formatDiff(previousSnapshot: SizeSnapshot, snapshot: SizeSnapshot, baselinePath: string): string {
+        const rows: string[][] = [];
+        const statuses: string[] = [];
+        const addDiffRows = (type: 'chunk' | 'asset',
+            previousEntries: { [name: string]: SizeSnapshotEntry },
+            currentEntries: { [name: string]: SizeSnapshotEntry }) => {
+            const emptyEntry: SizeSnapshotEntry = { size: 0, gzipSize: 0 };
+            const names = [
+                ...Object.keys(currentEntries),
+                ...Object.keys(previousEntries).filter(name => !currentEntries[name])
+            ];
+
+            names.forEach(name => {
+                const previous = previousEntries[name];
+                const current = currentEntries[name];
+                const status = !previous
+                    ? 'added'
+                    : !current
+                        ? 'removed'
+                        : current.size > previous.size ? 'grown' : current.size < previous.size ? 'shrunk' : '';
+                if (!status) {
+                    return;
+                }
+
+                const previousEntry = previous || emptyEntry;
+                const currentEntry = current || emptyEntry;
+                statuses.push(status);
+                rows.push([
+                    name,
+                    type,
+                    status,
+                    formatSize(currentEntry.size),
+                    formatSizeDiff(currentEntry.size - previousEntry.size),
+                    formatSize(currentEntry.gzipSize),
+                    formatSizeDiff(currentEntry.gzipSize - previousEntry.gzipSize)
+                ]);
+            });
+        };
+
+        addDiffRows('chunk', previousSnapshot.chunks, snapshot.chunks);
+        addDiffRows('asset', previousSnapshot.assets, snapshot.assets);
+
+        const baselineName = normalizeRelativePath(path.relative(process.cwd(), baselinePath));
+        if (!rows.length) {
+            return `No chunk or asset size changes compared with ${baselineName}.\n`;
+        }
+
+        const getTotal = (entries: { [name: string]: SizeSnapshotEntry }) => Object.keys(entries).reduce((total, key) => {
+            return {
+                size: total.size + entries[key].size,
+                gzipSize: total.gzipSize + entries[key].gzipSize
+            };
+        },
+            { size: 0, gzipSize: 0 });
+        const previousTotal = getTotal(previousSnapshot.assets);
+        const currentTotal = getTotal(snapshot.assets);
+
+        const headers = ['Name', 'Type', 'Status', 'Size', 'Diff', 'Gzip Size', 'Gzip Diff'];
+        const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+        const formatRow = (row: string[]) =>
+            `  ${row.map((cell, i) => cell + ' '.repeat(widths[i] - cell.length)).join('  ')}`.replace(/\s+$/, '');
+        const colorizeStatus = (line: string, status: string) => status === 'grown' || status === 'added'
+            ? colorize(line, 'yellow')
+            : colorize(line, 'green');
+
+        return [
+            `Size changes compared with ${baselineName}:`,
+            formatRow(headers),
+            ...rows.map((row, i) => colorizeStatus(formatRow(row), statuses[i])),
+            `  Total assets: ${formatSize(currentTotal.size)} (${formatSizeDiff(currentTotal.size - previousTotal.size)}), gzip: ${
+            formatSize(currentTotal.gzipSize)} (${formatSizeDiff(currentTotal.gzipSize - previousTotal.gzipSize)})`,
+            ''
+        ].join('\n');
+    }
+}
+
+// Hashed file names are compared without the hash, i.e. main.[chunkhash:20].js
+function stripHash(assetName: string): string {
+    return assetName.replace(/\.[0-9a-f]{20}(?=\.[^.\/]+$)/, '');
+}
+
+function formatSizeDiff(diff: number): string {
+    return `${diff < 0 ? '-' : '+'}${formatSize(Math.abs(diff))}`;
+}
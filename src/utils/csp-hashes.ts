@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+
+import * as parse5 from 'parse5';
+
+export interface CspHashes {
+    scriptHashes: string[];
+    styleHashes: string[];
+}
+
+export function findCspInlineElements(node: parse5.AST.Default.ParentNode): parse5.AST.Default.Element[] {
+    const elements: parse5.AST.Default.Element[] = [];
+    for (const childNode of node.childNodes) {
+        const element = childNode as parse5.AST.Default.Element;
+        if (!element.tagName) {
+            continue;
+        }
+
+        if ((element.tagName === 'script' && !element.attrs.find(attribute => attribute.name === 'src')) ||
+            element.tagName === 'style') {
+            elements.push(element);
+        } else {
+            elements.push(...findCspInlineElements(element));
+        }
+    }
+
+    return elements;
+}
+
+export function addCspNonce(node: parse5.AST.Default.ParentNode, cspNonce: string): void {
+    findCspInlineElements(node).forEach(element => {
+        if (!element.attrs.find(attribute => attribute.name === 'nonce')) {
+            element.attrs.push({ name: 'nonce', value: cspNonce });
+        }
+    });
+}
+
+export function addCspHash(hashes: string[], content: string): void {
+    const hash = `'sha256-${createHash('sha256').update(content, 'utf8').digest('base64')}'`;
+    if (!hashes.includes(hash)) {
+        hashes.push(hash);
+    }
+}
+
+// The hashes must be computed from the final html content
+export function addCspHashesFromHtml(cspHashes: CspHashes, html: string): void {
+    const document = parse5.parse(html, { treeAdapter: parse5.treeAdapters.default }) as parse5.AST.Default.Document;
+    findCspInlineElements(document).forEach(element => {
+        const content = element.childNodes
+            .map(childNode => (childNode as parse5.AST.Default.TextNode).value || '')
+            .join('');
+        addCspHash(element.tagName === 'style' ? cspHashes.styleHashes : cspHashes.scriptHashes, content);
+    });
+}
+
+// If the file extension is .json, the hashes are formatted as json, otherwise as Content-Security-Policy header directives
+export function formatCspHashes(cspHashes: CspHashes, fileName: string): string {
+    if (/\.json$/i.test(fileName)) {
+        return JSON.stringify({
+            'script-src': cspHashes.scriptHashes,
+            'style-src': cspHashes.styleHashes
+        },
+            null,
+            2);
+    }
+
+    const directives: string[] = [];
+    if (cspHashes.scriptHashes.length) {
+        directives.push(`script-src ${cspHashes.scriptHashes.join(' ')}`);
+    }
+    if (cspHashes.styleHashes.length) {
+        directives.push(`style-src ${cspHashes.styleHashes.join(' ')}`);
+    }
+
+    return directives.join('; ');
+}
+
+export function parseCspHashes(content: string, fileName: string): CspHashes {
+    if (/\.json$/i.test(fileName)) {
+        const data = JSON.parse(content) as { 'script-src'?: string[]; 'style-src'?: string[] };
+        return {
+            scriptHashes: [...(data['script-src'] || [])],
+            styleHashes: [...(data['style-src'] || [])]
+        };
+    }
+
+    const cspHashes: CspHashes = { scriptHashes: [], styleHashes: [] };
+    content.split(';').forEach(directive => {
+        const [directiveName, ...hashes] = directive.trim().split(/\s+/);
+        if (directiveName === 'script-src') {
+            cspHashes.scriptHashes.push(...hashes);
+        } else if (directiveName === 'style-src') {
+            cspHashes.styleHashes.push(...hashes);
+        }
+    });
+
+    return cspHashes;
+}
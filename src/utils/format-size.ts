@@ -0,0 +1,13 @@
+export function formatSize(size: number): string {
+    if (size <= 0) {
+        return '0 bytes';
+    }
+
+    const abbreviations = ['bytes', 'kB', 'MB', 'GB'];
+    const index = Math.min(Math.floor(Math.log(size) / Math.log(1024)), abbreviations.length - 1);
+    const roundedSize = size / Math.pow(1024, index);
+    // bytes don't have a fraction
+    const fractionDigits = index === 0 ? 0 : 2;
+
+    return `${roundedSize.toFixed(fractionDigits)} ${abbreviations[index]}`;
+}
@@ -1,5 +1,7 @@
 export * from './camel-case-to-underscore';
 export * from './colorize';
+export * from './csp-hashes';
+export * from './format-size';
 export * from './generate-hash-digest';
 export * from './is-base64';
 export * from './is-glob';
@@ -7,5 +9,6 @@ export * from './is-url';
 export * from './logger';
 export * from './path-helpers';
 export * from './read-json';
+export * from './stage-tap';
 export * from './strip-comments';
 export * from './validate-schema';
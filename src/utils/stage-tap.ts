@@ -0,0 +1,19 @@
+import { Tap } from 'tapable';
+
+/**
+ * The tap options to run a tap before or after the other taps of the hook.
+ */
+export interface StageTapOptions {
+    name: string;
+    /**
+     * The taps with lower stage run first, default is 0.
+     */
+    stage: number;
+}
+
+/**
+ * The tapable typings require all the 'Tap' properties, the others are set by tapable itself.
+ */
+export function toStageTap(options: StageTapOptions): Tap {
+    return options as Tap;
+}
@@ -153,6 +153,19 @@ export function
     return angularFixPlugins;
 }
 
+// The diagnostics methods of TypeScript program in JIT mode and Angular program in AOT mode
+const programDiagnosticsMethodNames = [
+    'getOptionsDiagnostics',
+    'getSyntacticDiagnostics',
+    'getSemanticDiagnostics',
+    'getTsOptionDiagnostics',
+    'getNgOptionDiagnostics',
+    'getTsSyntacticDiagnostics',
+    'getTsSemanticDiagnostics',
+    'getNgStructuralDiagnostics',
+    'getNgSemanticDiagnostics'
+];
+
 function createAotPlugin<TConfig extends AppProjectConfigInternal>(angularBuildContext: AngularBuildContext<TConfig>,
     options: Partial<AngularCompilerPluginOptions>): webpack.Plugin {
     const appConfig = angularBuildContext.projectConfig as AppProjectConfigInternal;
@@ -188,15 +201,48 @@ function createAotPlugin<TConfig extends AppProjectConfigInternal>(angularBuildC
         additionalLazyModules,
         nameLazyFiles: appConfig.namedChunks,
         forkTypeChecker: appConfig.forkTypeChecker,
+        compilerOptions: appConfig._differentialLoading && appConfig._tsCompilerConfig
+            ? { target: appConfig._tsCompilerConfig.options.target }
+            : undefined,
         ...options,
         host: host
     };
 
     const AngularCompilerPlugin = require(resolveLoaderPath('@ngtools/webpack')).AngularCompilerPlugin;
 
+    // Only the first locale and the legacy bundles are type checked, the others have the same diagnostics
+    if (appConfig._i18nLocaleIndex || appConfig._differentialLoading === 'modern') {
+        return createNoTypeCheckAotPlugin(AngularCompilerPlugin, pluginOptions);
+    }
+
     return new AngularCompilerPlugin(pluginOptions);
 }
 
+// @ngtools/webpack 6 has no option to skip type checking. With forkTypeChecker the program is type checked in process
+// only on the first run, so the forked type checker is not created and the program diagnostics are skipped.
+export function createNoTypeCheckAotPlugin(
+    AngularCompilerPlugin: new (options: AngularCompilerPluginOptions) => webpack.Plugin & { [key: string]: any },
+    pluginOptions: AngularCompilerPluginOptions): webpack.Plugin {
+    class NoTypeCheckAngularCompilerPlugin extends AngularCompilerPlugin {
+        _createForkedTypeChecker(): void { }
+
+        _createOrUpdateProgram(): Promise<void> {
+            return super._createOrUpdateProgram().then(() => {
+                const program = this._program;
+                if (!program) {
+                    return;
+                }
+
+                programDiagnosticsMethodNames
+                    .filter(methodName => typeof program[methodName] === 'function')
+                    .forEach(methodName => program[methodName] = () => []);
+            });
+        }
+    }
+
+    return new NoTypeCheckAngularCompilerPlugin({ ...pluginOptions, forkTypeChecker: true });
+}
+
 function getHostReplacementPaths(workspaceRoot: string, appConfig: AppProjectConfigInternal): { [key: string]: string } {
     const hostReplacementPaths: { [key: string]: string } = {};
     if (appConfig.fileReplacements && Array.isArray(appConfig.fileReplacements)) {
@@ -2,10 +2,11 @@ import * as path from 'path';
 import * as webpack from 'webpack';
 
 import { AngularBuildContextWebpackPlugin } from '../../plugins/angular-build-context-webpack-plugin';
+import { HmrAcceptLoader } from '../../plugins/hmr-accept-loader';
 import { TelemetryWebpackPlugin } from '../../plugins/telemetry-webpack-plugin';
 
 import { AngularBuildContext, AppProjectConfigInternal } from '../../build-context';
-import { isFromWebpackDevServer, getCustomWebpackConfig } from '../../helpers';
+import { getCustomWebpackConfig, isDevServerBuild } from '../../helpers';
 
 import { getAppAngularTypescriptWebpackConfigPartial } from './angular';
 import { getAppBrowserWebpackConfigPartial } from './browser';
@@ -19,6 +20,7 @@ export function
     getAppWebpackConfig<TConfig extends AppProjectConfigInternal>(angularBuildContext: AngularBuildContext<TConfig>):
     webpack.Configuration {
     const appConfig = angularBuildContext.projectConfig as AppProjectConfigInternal;
+    const isWebpackDevServer = isDevServerBuild(angularBuildContext.buildOptions);
     let customWebpackConfig: webpack.Configuration = {};
 
     if (appConfig.webpackConfig) {
@@ -46,11 +48,16 @@ export function
     const mergedConfig = webpackMerge(configs) as webpack.Configuration;
 
     if (!mergedConfig.entry || (typeof mergedConfig.entry === 'object' && !Object.keys(mergedConfig.entry).length)) {
-        mergedConfig.entry = isFromWebpackDevServer()
+        mergedConfig.entry = isWebpackDevServer
             ? [] as string[]
             : (() => ({})) as any;
     }
 
+    // dev server serves the bundles from the serve path
+    if (isWebpackDevServer && mergedConfig.devServer && mergedConfig.devServer.publicPath && mergedConfig.output) {
+        mergedConfig.output.publicPath = mergedConfig.devServer.publicPath;
+    }
+
     return mergedConfig;
 }
 
@@ -58,14 +65,26 @@ function getAppWebpackConfigPartial<TConfig extends AppProjectConfigInternal>(an
     AngularBuildContext<TConfig>): webpack.Configuration {
     const appConfig = angularBuildContext.projectConfig as AppProjectConfigInternal;
     const projectRoot = path.resolve(AngularBuildContext.workspaceRoot, appConfig.root || '');
+    const isWebpackDevServer = isDevServerBuild(angularBuildContext.buildOptions);
 
     // entry
     const entryPoints: { [key: string]: string[] } = {};
+    const rules: webpack.Rule[] = [];
 
     if (appConfig.entry) {
         const mainChunkName = appConfig.mainChunkName || 'main';
         const mainEntry = path.resolve(projectRoot, appConfig.entry);
         entryPoints[mainChunkName] = [mainEntry];
+
+        // hmr bootstrap helper
+        if (isWebpackDevServer && appConfig.hmr) {
+            rules.push({
+                test: /\.(ts|js)$/,
+                include: [mainEntry],
+                enforce: 'post',
+                loader: HmrAcceptLoader
+            });
+        }
     }
 
     // plugins
@@ -80,6 +99,9 @@ function getAppWebpackConfigPartial<TConfig extends AppProjectConfigInternal>(an
     }
 
     const webpackAppConfig: webpack.Configuration = {
+        module: {
+            rules: rules
+        },
         plugins: plugins
     };
 
@@ -4,6 +4,7 @@ import * as webpack from 'webpack';
 
 import { FaviconsWebpackPlugin } from '../../plugins/favicons-webpack-plugin';
 import { HtmlInjectWebpackPlugin } from '../../plugins/html-inject-webpack-plugin';
+import { PrerenderWebpackPlugin } from '../../plugins/prerender-webpack-plugin';
 import { ScriptsWebpackPlugin } from '../../plugins/scripts-webpack-plugin';
 import { ServiceWorkerWebpackPlugin } from '../../plugins/service-worker-webpack-plugin';
 
@@ -12,10 +13,12 @@ import { InternalError, InvalidConfigError } from '../../error-models';
 import {
     applyProjectConfigDefaults,
     applyProjectConfigWithEnvironment,
+    getServerBundleOutputPath,
+    isDevServerBuild,
     outputHashFormat,
     resolveLoaderPath
 } from '../../helpers';
-import { FaviconsConfig } from '../../interfaces';
+import { FaviconsConfig, PrerenderOptions } from '../../interfaces';
 
 export function
     getAppBrowserWebpackConfigPartial<TConfig extends AppProjectConfigInternal>(angularBuildContext:
@@ -255,6 +258,14 @@ export function
         // main entry
         SortedEntryList.push(mainChunkName);
 
+        // differential loading
+        const legacyScriptsKey = outputPath;
+        let moduleEntrypoints: string[] | undefined;
+        if (appConfig._differentialLoading === 'modern') {
+            const globalScriptEntryNames = (appConfig._scriptParsedEntries || []).map(scriptEntry => scriptEntry.entry);
+            moduleEntrypoints = SortedEntryList.filter(entryName => !globalScriptEntryNames.includes(entryName));
+        }
+
         // dll assets
         let dllAssetsFile: string | undefined;
         let injectDllAssets = appConfig.htmlInject.dlls;
@@ -297,22 +308,72 @@ export function
             runtimeChunkInline = true;
         }
 
-        plugins.push(new HtmlInjectWebpackPlugin({
-            ...appConfig.htmlInject,
-            baseDir: projectRoot,
-            outDir: outputPath,
-            entrypoints: SortedEntryList,
-            baseHref: appConfig.baseHref,
-            publicPath: appConfig.publicPath,
+        if (appConfig._differentialLoading === 'legacy') {
+            plugins.push(new HtmlInjectWebpackPlugin({
+                baseDir: projectRoot,
+                outDir: outputPath,
+                entrypoints: SortedEntryList,
+                legacyScriptsOut: legacyScriptsKey,
+
+                loggerOptions: {
+                    logLevel: logLevel
+                }
+            }));
+        } else {
+            plugins.push(new HtmlInjectWebpackPlugin({
+                ...appConfig.htmlInject,
+                baseDir: projectRoot,
+                outDir: outputPath,
+                entrypoints: SortedEntryList,
+                baseHref: appConfig.baseHref,
+                lang: appConfig.i18nLocale,
+                publicPath: appConfig.publicPath,
+
+                runtimeChunkInline: runtimeChunkInline,
 
-            runtimeChunkInline: runtimeChunkInline,
+                dlls: injectDllAssets,
+                dllAssetsFile: dllAssetsFile,
 
-            dlls: injectDllAssets,
-            dllAssetsFile: dllAssetsFile,
+                icons: injectIcons,
+                iconsCacheFile: iconsCacheFile,
 
-            icons: injectIcons,
-            iconsCacheFile: iconsCacheFile,
+                moduleEntrypoints: moduleEntrypoints,
+                legacyScriptsKey: moduleEntrypoints ? legacyScriptsKey : undefined,
+
+                loggerOptions: {
+                    logLevel: logLevel
+                }
+            }));
+        }
+    }
+
+    // prerender and app shell
+    const isWebpackDevServer = isDevServerBuild(angularBuildContext.buildOptions);
+    if ((appConfig.prerender || appConfig.appShell) && !isWebpackDevServer) {
+        const optionName = appConfig.appShell ? 'appShell' : 'prerender';
+        if (!appConfig.serverBundle) {
+            throw new InvalidConfigError(
+                `The 'projects[${appConfig.name || appConfig._index}].serverBundle' value is required for '${optionName}'.`);
+        }
+        if (!appConfig.htmlInject || !appConfig.htmlInject.index) {
+            throw new InvalidConfigError(
+                `The 'projects[${appConfig.name || appConfig._index}].htmlInject.index' value is required for '${optionName}'.`);
+        }
 
+        const prerenderOptions: PrerenderOptions = appConfig.prerender || {};
+        const serverOutputPath = path.resolve(AngularBuildContext.workspaceRoot, getServerBundleOutputPath(appConfig));
+        plugins.push(new PrerenderWebpackPlugin({
+            routes: prerenderOptions.routes,
+            routesFile: prerenderOptions.routesFile
+                ? path.resolve(projectRoot, prerenderOptions.routesFile)
+                : undefined,
+            appShellRoute: appConfig.appShell ? appConfig.appShell.route : undefined,
+            timeout: prerenderOptions.timeout,
+            cspNonce: appConfig.htmlInject.cspNonce,
+            cspHashesOut: appConfig.htmlInject.cspHashesOut,
+            serverBundle: path.resolve(serverOutputPath, `${mainChunkName}.js`),
+            index: appConfig.htmlInject.indexOut || path.basename(appConfig.htmlInject.index),
+            projectRoot: projectRoot,
             loggerOptions: {
                 logLevel: logLevel
             }
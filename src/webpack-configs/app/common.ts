@@ -4,25 +4,45 @@ import * as webpack from 'webpack';
 import { LicenseWebpackPlugin } from 'license-webpack-plugin';
 
 import { BundleAnalyzerWebpackPlugin } from '../../plugins/bundle-analyzer-webpack-plugin';
+import { BundleBudgetsWebpackPlugin } from '../../plugins/bundle-budgets-webpack-plugin';
 import { CleanCssWebpackPlugin } from '../../plugins/cleancss-webpack-plugin';
 import { CleanWebpackPlugin } from '../../plugins/clean-webpack-plugin';
+import { CompressionWebpackPlugin } from '../../plugins/compression-webpack-plugin';
 import { CopyWebpackPlugin } from '../../plugins/copy-webpack-plugin';
+import { ServerManifestWebpackPlugin } from '../../plugins/server-manifest-webpack-plugin';
+import { SizeSnapshotWebpackPlugin } from '../../plugins/size-snapshot-webpack-plugin';
 
 import { AngularBuildContext, AppProjectConfigInternal } from '../../build-context';
 import { InvalidConfigError } from '../../error-models';
 import {
     isFromWebpackCli,
-    isFromWebpackDevServer,
+    isDevServerBuild,
+    getLegacyWebpackConfigName,
+    getServerBundleOutputPath,
+    getServerWebpackConfigName,
     getWebpackToStringStatsOptions,
+    legacyBundleSuffix,
     outputHashFormat,
     resolveLoaderPath
 } from '../../helpers';
-import { BeforeBuildCleanOptions, BundleAnalyzerOptions, CleanOptions } from '../../interfaces';
+import {
+    BeforeBuildCleanOptions,
+    BundleAnalyzerOptions,
+    CleanOptions,
+    CompressionOptions,
+    ServerBundleOptions,
+    SizeSnapshotOptions
+} from '../../interfaces';
 
 const UglifyJSPlugin = require('uglifyjs-webpack-plugin');
 
 type WebpackLibraryTarget = 'var' | 'amd' | 'commonjs' | 'commonjs2' | 'umd';
 
+// The names of the configs to be run before in multi compiler, missing in webpack typings
+interface WebpackConfigurationWithDependencies extends webpack.Configuration {
+    dependencies?: string[];
+}
+
 export function
     getAppCommonWebpackConfigPartial<TConfig extends AppProjectConfigInternal>(angularBuildContext:
         AngularBuildContext<TConfig>): webpack.Configuration {
@@ -43,7 +63,9 @@ export function
     const isDll = appConfig._isDll;
 
     const isWebpackCli = isFromWebpackCli();
-    const isWebpackDevServer = isFromWebpackDevServer();
+    const isWebpackDevServer = isDevServerBuild(angularBuildContext.buildOptions);
+    const hasServerBundle = appConfig.serverBundle && !isDll && !isWebpackDevServer ? true : false;
+    const hmr = isWebpackDevServer && appConfig.hmr && !isDll ? true : false;
 
     const extractedAssetsHashFormat = (!appConfig.platformTarget || appConfig.platformTarget === 'web') &&
         appConfig._outputHashing &&
@@ -58,6 +80,7 @@ export function
         : '';
 
     const vendorChunkName = appConfig.vendorChunkName || 'vendor';
+    const bundleSuffix = appConfig._differentialLoading === 'legacy' ? legacyBundleSuffix : '';
 
     const rawLoader = resolveLoaderPath('raw-loader');
     const fileLoader = resolveLoaderPath('file-loader');
@@ -99,6 +122,11 @@ export function
         plugins.push(new webpack.ProgressPlugin());
     }
 
+    // hot module replacement
+    if (hmr) {
+        plugins.push(new webpack.HotModuleReplacementPlugin());
+    }
+
     // clean
     let shouldClean = outputPath &&
         (angularBuildContext.buildOptions.cleanOutDir || appConfig.clean);
@@ -126,6 +154,11 @@ export function
             beforeBuildOption.cleanOutDir = false;
         }
 
+        // The output directory is cleaned by the legacy build
+        if (appConfig._differentialLoading === 'modern' && beforeBuildOption.cleanOutDir) {
+            beforeBuildOption.cleanOutDir = false;
+        }
+
         plugins.push(new CleanWebpackPlugin({
             ...cleanOptions,
             workspaceRoot: AngularBuildContext.workspaceRoot,
@@ -284,6 +317,64 @@ export function
         }
     }
 
+    // budgets
+    if (!isDll && !isWebpackDevServer && appConfig.budgets && appConfig.budgets.length) {
+        plugins.push(new BundleBudgetsWebpackPlugin({
+            budgets: appConfig.budgets,
+            loggerOptions: {
+                logLevel: logLevel
+            }
+        }));
+    }
+
+    // size snapshot
+    if (!isDll && !isWebpackDevServer && appConfig.sizeSnapshot && outputPath) {
+        const sizeSnapshotOptions: SizeSnapshotOptions =
+            typeof appConfig.sizeSnapshot === 'object' ? appConfig.sizeSnapshot : {};
+        plugins.push(new SizeSnapshotWebpackPlugin({
+            path: path.resolve(outputPath, sizeSnapshotOptions.filename || 'size-snapshot.json'),
+            baseline: sizeSnapshotOptions.baseline ? path.resolve(projectRoot, sizeSnapshotOptions.baseline) : undefined,
+            loggerOptions: {
+                logLevel: logLevel
+            }
+        }));
+    }
+
+    // compression
+    if (!isDll && !isWebpackDevServer && appConfig.compression) {
+        const compressionOptions: CompressionOptions =
+            typeof appConfig.compression === 'object' ? appConfig.compression : {};
+        plugins.push(new CompressionWebpackPlugin({
+            ...compressionOptions,
+            loggerOptions: {
+                logLevel: logLevel
+            }
+        }));
+    }
+
+    // server manifest
+    if (hasServerBundle && outputPath) {
+        const serverBundleOptions = appConfig.serverBundle as ServerBundleOptions;
+        const serverOutputPath = path.resolve(AngularBuildContext.workspaceRoot, getServerBundleOutputPath(appConfig));
+        let indexOut: string | undefined;
+        if (appConfig.htmlInject && appConfig.htmlInject.indexOut) {
+            indexOut = appConfig.htmlInject.indexOut;
+        } else if (appConfig.htmlInject && appConfig.htmlInject.index) {
+            indexOut = path.basename(appConfig.htmlInject.index);
+        }
+
+        plugins.push(new ServerManifestWebpackPlugin({
+            path: path.resolve(serverOutputPath, serverBundleOptions.manifestFilename || 'server-manifest.json'),
+            serverBundle: path.resolve(serverOutputPath, `${appConfig.mainChunkName || 'main'}.js`),
+            index: indexOut,
+            locale: appConfig.i18nLocale,
+            baseHref: appConfig.baseHref,
+            loggerOptions: {
+                logLevel: logLevel
+            }
+        }));
+    }
+
     const nodeModulePaths = ['node_modules'];
     if (AngularBuildContext.nodeModulesPath) {
         nodeModulePaths.push(AngularBuildContext.nodeModulesPath);
@@ -346,8 +437,10 @@ export function
     }
 
     // webpack config
-    const webpackCommonConfig: webpack.Configuration = {
-        name: appConfig.name,
+    const webpackCommonConfig: WebpackConfigurationWithDependencies = {
+        name: appConfig._isServerBundle
+            ? getServerWebpackConfigName(appConfig)
+            : appConfig._differentialLoading === 'legacy' ? getLegacyWebpackConfigName(appConfig) : appConfig.name,
         mode: mode,
         target: appConfig.platformTarget,
         devtool: (devtool as any),
@@ -367,7 +460,7 @@ export function
         output: {
             libraryTarget: libraryTarget,
             path: outputPath,
-            filename: `[name]${bundleHashFormat}.js`,
+            filename: `[name]${bundleSuffix}${bundleHashFormat}.js`,
             devtoolModuleFilenameTemplate: devtool ? appConfig.sourceMapDevToolModuleFilenameTemplate : undefined,
             devtoolFallbackModuleFilenameTemplate: devtool
                 ? appConfig.sourceMapDevToolFallbackModuleFilenameTemplate
@@ -422,18 +515,71 @@ export function
         watchOptions: watchOptions
     };
 
+    // The modern build is run after the legacy build and the browser build is run after the server build
+    // in multi compiler
+    const dependencies: string[] = [];
+    if (appConfig._differentialLoading === 'modern') {
+        dependencies.push(getLegacyWebpackConfigName(appConfig));
+    }
+    if (hasServerBundle) {
+        dependencies.push(getServerWebpackConfigName(appConfig));
+    }
+    if (dependencies.length) {
+        webpackCommonConfig.dependencies = dependencies;
+    }
+
     // devServer
     if (isWebpackDevServer && !isDll) {
         let outDirRel = appConfig.outputPath || '';
         if (!outDirRel.endsWith('/')) {
             outDirRel = outDirRel + '/';
         }
+
+        const servePath = getDevServerServePath(appConfig.baseHref, appConfig.publicPath);
+        let indexOut = 'index.html';
+        if (appConfig.htmlInject && appConfig.htmlInject.indexOut) {
+            indexOut = appConfig.htmlInject.indexOut;
+        } else if (appConfig.htmlInject && appConfig.htmlInject.index) {
+            indexOut = path.basename(appConfig.htmlInject.index);
+        }
+
         webpackCommonConfig.devServer = {
-            historyApiFallback: true,
+            publicPath: servePath,
+            historyApiFallback: {
+                index: `${servePath}${indexOut}`,
+                disableDotRule: true,
+                htmlAcceptHeaders: ['text/html', 'application/xhtml+xml']
+            },
             contentBase: path.join(AngularBuildContext.workspaceRoot, outDirRel),
+            hot: hmr,
             stats: statOptions
         };
     }
 
     return webpackCommonConfig;
 }
+
+function getDevServerServePath(baseHref?: string, publicPath?: string): string {
+    if ((baseHref && /^(\w+:)?\/\//.test(baseHref)) || (publicPath && /^(\w+:)?\/\//.test(publicPath))) {
+        throw new InvalidConfigError(
+            "The absolute url 'baseHref' or 'publicPath' value can't be used with dev server.");
+    }
+
+    // For dev server, the starting base is always '/', so relative and root relative values are the same
+    const baseHrefParts = (baseHref || '').split('/').filter(part => part !== '');
+    if (baseHref && !baseHref.endsWith('/')) {
+        baseHrefParts.pop();
+    }
+    const normalizedBaseHref = baseHrefParts.length === 0 ? '/' : `/${baseHrefParts.join('/')}/`;
+
+    if (publicPath && publicPath[0] === '/') {
+        return publicPath.endsWith('/') ? publicPath : `${publicPath}/`;
+    }
+
+    let servePath = `${normalizedBaseHref}${publicPath || ''}`;
+    if (!servePath.endsWith('/')) {
+        servePath = `${servePath}/`;
+    }
+
+    return servePath;
+}
@@ -9,7 +9,7 @@ import { SuppressEntryChunksWebpackPlugin } from '../../plugins/suppress-entry-c
 
 import { AngularBuildContext, AppProjectConfigInternal } from '../../build-context';
 import { InternalError } from '../../error-models';
-import { outputHashFormat, resolveLoaderPath } from '../../helpers';
+import { isDevServerBuild, outputHashFormat, resolveLoaderPath } from '../../helpers';
 
 const MiniCssExtractPlugin = require('mini-css-extract-plugin');
 const postcssImports = require('postcss-import');
@@ -29,8 +29,11 @@ export function
     const appConfig = angularBuildContext.projectConfig as AppProjectConfigInternal;
 
     const projectRoot = path.resolve(AngularBuildContext.workspaceRoot, appConfig.root || '');
-    const extractCss = appConfig.extractCss;
     const isDll = appConfig._isDll;
+    const isWebpackDevServer = isDevServerBuild(angularBuildContext.buildOptions);
+    // Keep global styles on style-loader to accept hot updates
+    const hmr = isWebpackDevServer && appConfig.hmr && !isDll ? true : false;
+    const extractCss = appConfig.extractCss && !hmr;
 
     const extractedAssetsHashFormat = (!appConfig.platformTarget || appConfig.platformTarget === 'web') &&
         appConfig._outputHashing &&
@@ -64,8 +67,10 @@ export function
 
     const rawLoader = resolveLoaderPath('raw-loader');
     const postcssLoader = resolveLoaderPath('postcss-loader');
+    const lessLoader = resolveLoaderPath('less-loader');
     const sassLoader = resolveLoaderPath('sass-loader');
     const styleLoader = resolveLoaderPath('style-loader');
+    const stylusLoader = resolveLoaderPath('stylus-loader');
 
     const postcssPluginCreator = (loader: webpack.loader.LoaderContext) => [
         postcssImports({
@@ -180,6 +185,32 @@ export function
                     }
                 }
             ]
+        },
+        {
+            test: /\.less$/,
+            use: [
+                {
+                    loader: lessLoader,
+                    options: {
+                        sourceMap: cssSourceMap,
+                        javascriptEnabled: true,
+                        // less-loader resolves imports with webpack unless 'paths' is set
+                        ...(includePaths.length ? { paths: includePaths } : {})
+                    }
+                }
+            ]
+        },
+        {
+            test: /\.styl$/,
+            use: [
+                {
+                    loader: stylusLoader,
+                    options: {
+                        sourceMap: cssSourceMap,
+                        paths: includePaths
+                    }
+                }
+            ]
         }
     ];
 
@@ -5,22 +5,24 @@ import { NodeJsSyncHost } from '@angular-devkit/core/node';
 import * as webpack from 'webpack';
 
 import {
-    AngularBuildConfigInternal,
     AngularBuildContext,
     AppProjectConfigInternal,
     BuildContextStaticOptions,
     BuildOptionInternal,
     LibProjectConfigInternal,
 } from '../build-context';
-import { InternalError, InvalidConfigError, InvalidOptionError } from '../error-models';
+import { InvalidConfigError, InvalidOptionError } from '../error-models';
 import {
-    applyProjectConfigDefaults,
-    applyProjectConfigWithEnvironment,
-    applyProjectConfigExtends,
-    normalizeEnvironment
+    getDifferentialLoadingAppConfigs,
+    getI18nLocaleAppConfigs,
+    getProjectConfigKey,
+    getServerBundleAppConfigs,
+    normalizeEnvironment,
+    prepareFilterNames,
+    readAngularBuildConfig,
+    resolveProjectConfigsWithStages,
+    sortProjectConfigsByDependencies
 } from '../helpers';
-import { AngularBuildConfig } from '../interfaces';
-import { formatValidationError, readJsonSync, validateSchema } from '../utils';
 
 import { getAppWebpackConfig } from './app';
 import { getLibWebpackConfig } from './lib';
@@ -31,12 +33,12 @@ export function getWebpackConfigFromAngularBuildConfig(configPath: string, env?:
         throw new InvalidOptionError("The 'configPath' is required.");
     }
 
-    if (!/\.json$/i.test(configPath)) {
+    if (!/\.(json|js|ts)$/i.test(configPath)) {
         throw new InvalidOptionError(`Invalid config file, path: ${configPath}.`);
     }
 
     if (!existsSync(configPath)) {
-        throw new InvalidOptionError(`The angular-build.json config file does not exist at ${configPath}.`);
+        throw new InvalidOptionError(`The angular-build config file does not exist at ${configPath}.`);
     }
 
     let buildOptions: BuildOptionInternal = { environment: {} };
@@ -120,64 +122,7 @@ export function getWebpackConfigFromAngularBuildConfig(configPath: string, env?:
         }
     }
 
-    let angularBuildConfig: AngularBuildConfig | null = null;
-
-    try {
-        angularBuildConfig = readJsonSync(configPath) as AngularBuildConfigInternal;
-    } catch (jsonErr) {
-        throw new InvalidConfigError(`Invalid configuration, error: ${jsonErr.message || jsonErr}.`);
-    }
-
-    // Validate schema
-    const schemaFileName = 'schema.json';
-    let schemaPath = '';
-    if (existsSync(path.resolve(__dirname, `../schemas/${schemaFileName}`))) {
-        schemaPath = `../schemas/${schemaFileName}`;
-    } else if (existsSync(path.resolve(__dirname, `../../schemas/${schemaFileName}`))) {
-        schemaPath = `../../schemas/${schemaFileName}`;
-    }
-
-    if (!schemaPath) {
-        throw new InternalError("The angular-build schema file doesn't exist.");
-    }
-
-    const schema = require(schemaPath);
-    if (schema.$schema) {
-        delete schema.$schema;
-    }
-    if (angularBuildConfig.$schema) {
-        delete angularBuildConfig.$schema;
-    }
-
-    const errors = validateSchema(schema, angularBuildConfig);
-    if (errors.length) {
-        const errMsg = errors.map(err => formatValidationError(schema, err)).join('\n');
-        throw new InvalidConfigError(
-            `Invalid configuration.\n\n${
-            errMsg}`);
-    }
-
-    // Set angular build defaults
-    const angularBuildConfigInternal = angularBuildConfig as AngularBuildConfigInternal;
-    angularBuildConfigInternal._schema = schema;
-    angularBuildConfigInternal._configPath = configPath;
-    angularBuildConfigInternal.libs = angularBuildConfigInternal.libs || [];
-    angularBuildConfigInternal.apps = angularBuildConfigInternal.apps || [];
-
-    for (let i = 0; i < angularBuildConfigInternal.libs.length; i++) {
-        const libConfig = angularBuildConfigInternal.libs[i];
-
-        libConfig._index = i;
-        libConfig._projectType = 'lib';
-        libConfig._configPath = configPath;
-    }
-
-    for (let i = 0; i < angularBuildConfigInternal.apps.length; i++) {
-        const appConfig = angularBuildConfigInternal.apps[i];
-        appConfig._index = i;
-        appConfig._projectType = 'app';
-        appConfig._configPath = configPath;
-    }
+    const angularBuildConfigInternal = readAngularBuildConfig(configPath, buildOptions.environment, buildOptions);
 
     if (angularBuildConfigInternal.libs.length === 0 && angularBuildConfigInternal.apps.length === 0) {
         throw new InvalidConfigError('No app or lib project is available.');
@@ -197,90 +142,54 @@ export function getWebpackConfigFromAngularBuildConfig(configPath: string, env?:
 
     const webpackConfigs: webpack.Configuration[] = [];
 
-    if (angularBuildConfigInternal.libs.length > 0) {
-        let filteredLibConfigs = angularBuildConfigInternal.libs
-            .filter(projectConfig =>
-                (filterNames.length === 0 ||
-                    (filterNames.length > 0 &&
-                        (filterNames.includes('libs') ||
-                            (projectConfig.name && filterNames.includes(projectConfig.name))))));
-
-        if (filterNames.length &&
-            filterNames.filter(configName => configName === 'apps').length === filterNames.length) {
-            filteredLibConfigs = [];
-        }
-
-        if (filteredLibConfigs.length > 0) {
-            for (let i = 0; i < filteredLibConfigs.length; i++) {
-                const libConfig = JSON.parse(JSON.stringify(filteredLibConfigs[i])) as LibProjectConfigInternal;
-
-                // extends
-                applyProjectConfigExtends(libConfig, angularBuildConfigInternal.libs as LibProjectConfigInternal[]);
-
-                const clonedLibConfig = JSON.parse(JSON.stringify(libConfig)) as LibProjectConfigInternal;
-
-                // apply env
-                applyProjectConfigWithEnvironment(clonedLibConfig, buildOptions.environment);
-
-                // apply defaults
-                applyProjectConfigDefaults(clonedLibConfig, buildOptions.environment);
-
-                if (clonedLibConfig.skip) {
-                    continue;
-                }
-
-                const angularBuildContext = new AngularBuildContext({
-                    projectConfigWithoutEnvApplied: libConfig,
-                    projectConfig: clonedLibConfig,
-                    buildOptions: buildOptions,
-                    workspaceRoot: workspaceRoot,
-                    host: new NodeJsSyncHost(),
-                    ...staticBuildContextOptions
-                });
+    // Dependencies of the filtered projects are included and built first
+    const resolvedStagesList = resolveProjectConfigsWithStages(angularBuildConfigInternal,
+        buildOptions.environment,
+        buildOptions._skipDependencies ? filterNames : []);
+    const resolvedProjectConfigs = resolvedStagesList.map(resolveStages => resolveStages.resolved);
+    let sortedProjectConfigs = buildOptions._skipDependencies
+        ? resolvedProjectConfigs
+        : sortProjectConfigsByDependencies(resolvedProjectConfigs, filterNames, workspaceRoot);
+
+    const affectedProjects = buildOptions._affectedProjects;
+    if (affectedProjects) {
+        sortedProjectConfigs = sortedProjectConfigs.filter(p => affectedProjects.includes(getProjectConfigKey(p)));
+    }
+
+    for (const sortedProjectConfig of sortedProjectConfigs) {
+        const resolveStages = resolvedStagesList[resolvedProjectConfigs.indexOf(sortedProjectConfig)];
+
+        if (sortedProjectConfig._projectType === 'lib') {
+            const angularBuildContext = new AngularBuildContext({
+                projectConfigWithoutEnvApplied: resolveStages.extended as LibProjectConfigInternal,
+                projectConfig: resolveStages.resolved as LibProjectConfigInternal,
+                buildOptions: buildOptions,
+                workspaceRoot: workspaceRoot,
+                host: new NodeJsSyncHost(),
+                ...staticBuildContextOptions
+            });
 
-                const wpConfig = getLibWebpackConfig(angularBuildContext) as (webpack.Configuration | null);
-                if (wpConfig) {
-                    webpackConfigs.push(wpConfig);
-                }
+            const wpConfig = getLibWebpackConfig(angularBuildContext) as (webpack.Configuration | null);
+            if (wpConfig) {
+                webpackConfigs.push(wpConfig);
             }
-        }
-    }
-
-    if (angularBuildConfigInternal.apps.length > 0) {
-        let filteredAppConfigs = angularBuildConfigInternal.apps
-            .filter(projectConfig =>
-                (filterNames.length === 0 ||
-                    (filterNames.length > 0 &&
-                        (filterNames.includes('apps') ||
-                            (projectConfig.name && filterNames.includes(projectConfig.name))))));
-
-        if (filterNames.length &&
-            filterNames.filter(configName => configName === 'libs').length === filterNames.length) {
-            filteredAppConfigs = [];
-        }
-
-        if (filteredAppConfigs.length > 0) {
-            for (let i = 0; i < filteredAppConfigs.length; i++) {
-                const appConfig = JSON.parse(JSON.stringify(filteredAppConfigs[i])) as AppProjectConfigInternal;
-
-                // extends
-                applyProjectConfigExtends(appConfig, angularBuildConfigInternal.apps as AppProjectConfigInternal[]);
-
-                const clonedAppConfig = JSON.parse(JSON.stringify(appConfig)) as AppProjectConfigInternal;
-
-                // apply env
-                applyProjectConfigWithEnvironment(clonedAppConfig, buildOptions.environment);
-
-                // apply defaults
-                applyProjectConfigDefaults(clonedAppConfig, buildOptions.environment);
-
-                if (clonedAppConfig.skip) {
-                    continue;
-                }
-
+        } else {
+            const appConfig = resolveStages.extended as AppProjectConfigInternal;
+            const clonedAppConfig = resolveStages.resolved as AppProjectConfigInternal;
+
+            // Each locale, server bundle and differential loading target is built with its own config
+            const expandedAppConfigs: AppProjectConfigInternal[] = [];
+            if (buildOptions._devServer) {
+                expandedAppConfigs.push(clonedAppConfig);
+            } else {
+                getI18nLocaleAppConfigs(clonedAppConfig).forEach(localeAppConfig =>
+                    getServerBundleAppConfigs(localeAppConfig).forEach(bundleAppConfig =>
+                        expandedAppConfigs.push(...getDifferentialLoadingAppConfigs(bundleAppConfig))));
+            }
+            for (const expandedAppConfig of expandedAppConfigs) {
                 const angularBuildContext = new AngularBuildContext({
                     projectConfigWithoutEnvApplied: appConfig,
-                    projectConfig: clonedAppConfig,
+                    projectConfig: expandedAppConfig,
                     buildOptions: buildOptions,
                     workspaceRoot: workspaceRoot,
                     host: new NodeJsSyncHost(),
@@ -301,22 +210,3 @@ export function getWebpackConfigFromAngularBuildConfig(configPath: string, env?:
 
     return webpackConfigs;
 }
-
-function prepareFilterNames(filter: string | string[]): string[] {
-    const filterNames: string[] = [];
-
-    if (filter &&
-        (Array.isArray(filter) || typeof filter === 'string')) {
-        if (Array.isArray(filter)) {
-            (filter as string[]).forEach(filterName => {
-                if (filterName && filterName.trim() && !filterNames.includes(filterName.trim())) {
-                    filterNames.push(filterName.trim());
-                }
-            });
-        } else if (filter && filter.trim()) {
-            filterNames.push(filter);
-        }
-    }
-
-    return filterNames;
-}
@@ -3,13 +3,14 @@ import * as webpack from 'webpack';
 
 import { AngularBuildContextWebpackPlugin } from '../../plugins/angular-build-context-webpack-plugin';
 import { CleanWebpackPlugin } from '../../plugins/clean-webpack-plugin';
+import { CompressionWebpackPlugin } from '../../plugins/compression-webpack-plugin';
 import { CopyWebpackPlugin } from '../../plugins/copy-webpack-plugin';
 import { LibBundleWebpackPlugin } from '../../plugins/lib-bundle-webpack-plugin';
 import { TelemetryWebpackPlugin } from '../../plugins/telemetry-webpack-plugin';
 
 import { AngularBuildContext, LibProjectConfigInternal } from '../../build-context';
 import { InvalidConfigError } from '../../error-models';
-import { BeforeBuildCleanOptions, CleanOptions } from '../../interfaces';
+import { BeforeBuildCleanOptions, CleanOptions, CompressionOptions } from '../../interfaces';
 
 export function
     getLibWebpackConfig<TConfig extends LibProjectConfigInternal>(angularBuildContext: AngularBuildContext<TConfig>):
@@ -80,6 +81,19 @@ export function
         }));
     }
 
+    // compression
+    if (libConfig.compression) {
+        const compressionOptions: CompressionOptions =
+            typeof libConfig.compression === 'object' ? libConfig.compression : {};
+        plugins.push(new CompressionWebpackPlugin({
+            ...compressionOptions,
+            outputPath: outputPath,
+            loggerOptions: {
+                logLevel: logLevel
+            }
+        }));
+    }
+
     // telemetry plugin
     if (!AngularBuildContext.telemetryPluginAdded) {
         AngularBuildContext.telemetryPluginAdded = true;
@@ -0,0 +1,76 @@
+import * as path from 'path';
+
+import { AppProjectConfigInternal } from '../../src/build-context';
+import { resolveProjectConfigStages } from '../../src/helpers';
+import { AppProjectConfigDefaults } from '../../src/interfaces';
+
+function resolveAppConfig(appConfig: Partial<AppProjectConfigInternal>,
+    appDefaults: AppProjectConfigDefaults,
+    environment: { [key: string]: boolean | string } = {}): AppProjectConfigInternal {
+    const rawAppConfig = {
+        ...appConfig,
+        _index: 0,
+        _projectType: 'app',
+        _configPath: path.resolve(process.cwd(), 'angular-build.json')
+    } as AppProjectConfigInternal;
+
+    return resolveProjectConfigStages(rawAppConfig, [rawAppConfig], environment, appDefaults).envApplied;
+}
+
+describe('resolveProjectConfigStages', () => {
+    it('should apply workspace defaults over built-in presets and under project own options', () => {
+        const appConfig = resolveAppConfig({
+            name: 'app',
+            extends: 'ngb:app-browser-default',
+            publicPath: '/own/'
+        },
+            {
+                baseHref: '/portal/',
+                publicPath: '/portal/'
+            });
+
+        expect(appConfig.baseHref).toBe('/portal/');
+        expect(appConfig.publicPath).toBe('/own/');
+        expect(appConfig.outputPath).toBe('dist');
+    });
+
+    it('should deep merge object options of workspace defaults', () => {
+        const appConfig = resolveAppConfig({
+            name: 'app',
+            extends: 'ngb:app-browser-default',
+            htmlInject: {
+                resourceHints: false
+            }
+        },
+            {
+                htmlInject: {
+                    index: 'index.html',
+                    cspNonce: '{{cspNonce}}'
+                }
+            });
+
+        expect(appConfig.htmlInject).toEqual({
+            index: 'index.html',
+            cspNonce: '{{cspNonce}}',
+            resourceHints: false
+        });
+    });
+
+    it('should merge environment overrides of workspace defaults over built-in presets', () => {
+        const appConfig = resolveAppConfig({
+            name: 'app',
+            extends: 'ngb:app-browser-default'
+        },
+            {
+                envOverrides: {
+                    prod: {
+                        sourceMap: true
+                    }
+                }
+            },
+            { prod: true });
+
+        expect(appConfig.aot).toBe(true);
+        expect(appConfig.sourceMap).toBe(true);
+    });
+});
@@ -0,0 +1,69 @@
+import { Budget } from '../../src/interfaces';
+import { BundleBudgetsWebpackPlugin } from '../../src/plugins/bundle-budgets-webpack-plugin';
+
+import { createFakeCompilation, createFakeCompiler } from '../utils/fake-webpack-compiler';
+
+async function runBudgets(budgets: Budget[], assetSizes: { [key: string]: number }): Promise<{ errors: Error[]; warnings: Error[] }> {
+    const assets: { [key: string]: any } = {};
+    Object.keys(assetSizes).forEach(assetName => {
+        assets[assetName] = { size: () => assetSizes[assetName] };
+    });
+
+    const compilation = createFakeCompilation(assets, [{
+        name: 'main',
+        files: Object.keys(assetSizes),
+        canBeInitial: () => true
+    }]);
+    const compiler = createFakeCompiler();
+
+    new BundleBudgetsWebpackPlugin({ budgets: budgets, loggerOptions: { logLevel: 'none' } }).apply(compiler as any);
+    await compiler.hooks.afterEmit.call(compilation);
+
+    return { errors: compilation.errors, warnings: compilation.warnings };
+}
+
+describe('BundleBudgetsWebpackPlugin', () => {
+    it('should only check the maximum threshold for warning and error without baseline', async () => {
+        const result = await runBudgets([{ type: 'bundle', name: 'main', warning: '2kb', error: '4kb' }], { 'main.js': 1024 });
+
+        expect(result.errors.length).toBe(0);
+        expect(result.warnings.length).toBe(0);
+    });
+
+    it('should report warning and error when the size exceeds maximum threshold without baseline', async () => {
+        const warningResult = await runBudgets([{ type: 'initial', warning: '2kb', error: '4kb' }], { 'main.js': 3 * 1024 });
+        expect(warningResult.errors.length).toBe(0);
+        expect(warningResult.warnings.length).toBe(1);
+        expect(warningResult.warnings[0].message).toContain('exceeded maximum');
+
+        const errorResult = await runBudgets([{ type: 'initial', warning: '2kb', error: '4kb' }], { 'main.js': 5 * 1024 });
+        expect(errorResult.errors.length).toBe(1);
+        expect(errorResult.warnings.length).toBe(0);
+    });
+
+    it('should check the minimum threshold for warning and error relative to baseline', async () => {
+        const budgets: Budget[] = [{ type: 'all', baseline: '10kb', warning: '1kb', error: '2kb' }];
+
+        expect((await runBudgets(budgets, { 'main.js': 10 * 1024 })).warnings.length).toBe(0);
+
+        const warningResult = await runBudgets(budgets, { 'main.js': 8.5 * 1024 });
+        expect(warningResult.errors.length).toBe(0);
+        expect(warningResult.warnings.length).toBe(1);
+        expect(warningResult.warnings[0].message).toContain('failed to meet minimum');
+
+        expect((await runBudgets(budgets, { 'main.js': 7 * 1024 })).errors.length).toBe(1);
+        expect((await runBudgets(budgets, { 'main.js': 13 * 1024 })).errors.length).toBe(1);
+    });
+
+    it('should use the explicit minimum threshold without baseline', async () => {
+        const result = await runBudgets([{ type: 'all', minimumWarning: '2kb' }], { 'main.js': 1024 });
+
+        expect(result.warnings.length).toBe(1);
+        expect(result.warnings[0].message).toContain('failed to meet minimum');
+    });
+
+    it('should throw for percentage threshold without baseline', async () => {
+        expect(() => new BundleBudgetsWebpackPlugin({ budgets: [{ type: 'all', warning: '10%' }] }))
+            .toThrowError(/Invalid budget size value/);
+    });
+});
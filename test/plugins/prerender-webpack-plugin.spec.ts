@@ -0,0 +1,140 @@
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+
+import { mkdtempSync, outputFileSync, removeSync } from 'fs-extra';
+import { RawSource } from 'webpack-sources';
+
+import { PrerenderWebpackPlugin, PrerenderWebpackPluginOptions } from '../../src/plugins/prerender-webpack-plugin';
+
+import { createFakeCompilation, createFakeCompiler } from '../utils/fake-webpack-compiler';
+
+const indexHtml = '<html><head><script nonce="{{cspNonce}}">var a = 1;</script></head><body><app-root></app-root></body></html>';
+
+function sha256(content: string): string {
+    return `'sha256-${createHash('sha256').update(content, 'utf8').digest('base64')}'`;
+}
+
+async function runPrerender(options: Partial<PrerenderWebpackPluginOptions>,
+    assets: { [key: string]: any }): Promise<{ assets: { [key: string]: any }; errors: Error[] }> {
+    const compilation = createFakeCompilation(assets);
+    const compiler = createFakeCompiler({ output: { path: path.resolve(projectRoot, 'dist') } });
+
+    new PrerenderWebpackPlugin({
+        serverBundle: path.resolve(projectRoot, 'dist-server/main.js'),
+        index: 'index.html',
+        projectRoot: projectRoot,
+        loggerOptions: { logLevel: 'none' },
+        ...options
+    }).apply(compiler as any);
+    await compiler.hooks.emit.call(compilation);
+
+    return { assets: compilation.assets, errors: compilation.errors };
+}
+
+let projectRoot: string;
+
+describe('PrerenderWebpackPlugin', () => {
+    beforeAll(() => {
+        projectRoot = mkdtempSync(path.join(os.tmpdir(), 'prerender-'));
+
+        // The server renderer inlines the component styles into head, the '/hang' route never completes
+        outputFileSync(path.resolve(projectRoot, 'node_modules/@angular/platform-server/index.js'), [
+            'exports.renderModule = function (moduleType, options) {',
+            '    if (options.url === \'/hang\') {',
+            '        return new Promise(function () { setInterval(function () { }, 1000); });',
+            '    }',
+            '    if (options.url === \'/fail\') {',
+            '        return Promise.reject(new Error(\'Render error\'));',
+            '    }',
+            '    return Promise.resolve(options.document.replace(\'</head>\', \'<style>h1{color:red}</style></head>\'));',
+            '};'
+        ].join('\n'));
+        outputFileSync(path.resolve(projectRoot, 'dist-server/main.js'), 'exports.AppServerModule = function () {};');
+    });
+
+    afterAll(() => {
+        removeSync(projectRoot);
+    });
+
+    it('should add csp nonce and hashes for inline styles of app shell', async () => {
+        const result = await runPrerender({
+            appShellRoute: '/shell',
+            cspNonce: '{{cspNonce}}',
+            cspHashesOut: 'csp.json'
+        },
+            {
+                'index.html': new RawSource(indexHtml),
+                'csp.json': new RawSource(JSON.stringify({ 'script-src': [sha256('var a = 1;')], 'style-src': [] }))
+            });
+
+        expect(result.errors.length).toBe(0);
+        expect(result.assets['index.html'].source()).toContain('<style nonce="{{cspNonce}}">h1{color:red}</style>');
+        expect(result.assets['index.html'].source()).toContain('<script nonce="{{cspNonce}}">var a = 1;</script>');
+
+        const cspHashes = JSON.parse(result.assets['csp.json'].source());
+        expect(cspHashes['script-src']).toEqual([sha256('var a = 1;')]);
+        expect(cspHashes['style-src']).toEqual([sha256('h1{color:red}')]);
+    });
+
+    it('should merge csp hashes of prerendered routes into header directives', async () => {
+        const result = await runPrerender({
+            routes: ['/about'],
+            cspHashesOut: path.resolve(projectRoot, 'dist/csp.txt')
+        },
+            {
+                'index.html': new RawSource(indexHtml),
+                'csp.txt': new RawSource(`script-src ${sha256('var a = 1;')}`)
+            });
+
+        expect(result.errors.length).toBe(0);
+        expect(result.assets['about/index.html'].source()).toContain('<style>h1{color:red}</style>');
+        expect(result.assets['csp.txt'].source())
+            .toBe(`script-src ${sha256('var a = 1;')}; style-src ${sha256('h1{color:red}')}`);
+    });
+
+    it('should keep index html and report error when the app shell route fails to render', async () => {
+        const result = await runPrerender({
+            appShellRoute: '/fail'
+        },
+            {
+                'index.html': new RawSource(indexHtml)
+            });
+
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0].message).toContain("Failed to render app shell route '/fail', Render error");
+        expect(result.assets['index.html'].source()).toBe(indexHtml);
+    });
+
+    it('should report the failed route and keep the other rendered routes', async () => {
+        const result = await runPrerender({
+            routes: ['/about', '/fail', '/contact']
+        },
+            {
+                'index.html': new RawSource(indexHtml)
+            });
+
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0].message).toContain("Failed to prerender route '/fail', Render error");
+        expect(result.assets['about/index.html']).toBeDefined();
+        expect(result.assets['fail/index.html']).toBeUndefined();
+        expect(result.assets['contact/index.html']).toBeDefined();
+    });
+
+    it('should report the hanging route after timeout and keep the other rendered routes', async () => {
+        const result = await runPrerender({
+            routes: ['/about', '/hang', '/contact'],
+            timeout: 1000
+        },
+            {
+                'index.html': new RawSource(indexHtml)
+            });
+
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0].message)
+            .toContain("Failed to prerender route '/hang', The prerender process is killed after timeout of 1000ms.");
+        expect(result.assets['about/index.html']).toBeDefined();
+        expect(result.assets['hang/index.html']).toBeUndefined();
+        expect(result.assets['contact/index.html']).toBeDefined();
+    });
+});
@@ -0,0 +1,66 @@
+export class FakeHook {
+    private readonly _fns: ((...args: any[]) => Promise<void>)[] = [];
+
+    tap(_: any, fn: (...args: any[]) => void): void {
+        this._fns.push(async (...args: any[]) => {
+            fn(...args);
+        });
+    }
+
+    tapPromise(_: any, fn: (...args: any[]) => Promise<void>): void {
+        this._fns.push(fn);
+    }
+
+    tapAsync(_: any, fn: (...args: any[]) => void): void {
+        this._fns.push((...args: any[]) => new Promise<void>((resolve, reject) => {
+            fn(...args, (err?: Error) => err ? reject(err) : resolve());
+        }));
+    }
+
+    async call(...args: any[]): Promise<void> {
+        for (const fn of this._fns) {
+            await fn(...args);
+        }
+    }
+}
+
+export interface FakeCompilation {
+    assets: { [key: string]: any };
+    chunks: any[];
+    errors: Error[];
+    warnings: Error[];
+}
+
+export interface FakeCompiler {
+    options: { [key: string]: any };
+    hooks: {
+        run: FakeHook;
+        watchRun: FakeHook;
+        emit: FakeHook;
+        afterEmit: FakeHook;
+        done: FakeHook;
+    };
+}
+
+// Only the compiler hooks and compilation properties used by the plugins are faked
+export function createFakeCompiler(options: { [key: string]: any } = {}): FakeCompiler {
+    return {
+        options: options,
+        hooks: {
+            run: new FakeHook(),
+            watchRun: new FakeHook(),
+            emit: new FakeHook(),
+            afterEmit: new FakeHook(),
+            done: new FakeHook()
+        }
+    };
+}
+
+export function createFakeCompilation(assets: { [key: string]: any }, chunks: any[] = []): FakeCompilation {
+    return {
+        assets: assets,
+        chunks: chunks,
+        errors: [],
+        warnings: []
+    };
+}
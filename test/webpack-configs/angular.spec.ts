@@ -0,0 +1,52 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import { AngularCompilerPluginOptions } from '@ngtools/webpack';
+import { mkdtempSync, outputFileSync, removeSync } from 'fs-extra';
+
+import { createNoTypeCheckAotPlugin } from '../../src/webpack-configs/app/angular';
+
+let projectRoot: string;
+
+async function getDiagnosticErrors(plugin: any): Promise<Error[]> {
+    await plugin._update();
+
+    return plugin._errors;
+}
+
+describe('createNoTypeCheckAotPlugin', () => {
+    beforeAll(() => {
+        projectRoot = mkdtempSync(path.join(os.tmpdir(), 'angular-compiler-'));
+
+        outputFileSync(path.resolve(projectRoot, 'tsconfig.json'), JSON.stringify({
+            compilerOptions: {
+                target: 'es5',
+                module: 'es2015',
+                lib: ['es2017', 'dom'],
+                types: []
+            },
+            files: ['main.ts']
+        }));
+        outputFileSync(path.resolve(projectRoot, 'main.ts'), "export const value: number = 'text';\n");
+    });
+
+    afterAll(() => {
+        removeSync(projectRoot);
+    });
+
+    it('should only report type errors from the type checked compiler', async () => {
+        const pluginOptions: AngularCompilerPluginOptions = {
+            tsConfigPath: path.resolve(projectRoot, 'tsconfig.json'),
+            skipCodeGeneration: true,
+            forkTypeChecker: true
+        };
+        const AngularCompilerPlugin = require('@ngtools/webpack').AngularCompilerPlugin;
+
+        const typeCheckedErrors = await getDiagnosticErrors(new AngularCompilerPlugin(pluginOptions));
+        const noTypeCheckErrors = await getDiagnosticErrors(createNoTypeCheckAotPlugin(AngularCompilerPlugin, pluginOptions));
+
+        expect(typeCheckedErrors.length).toBe(1);
+        expect(typeCheckedErrors[0].message).toContain("Type '\"text\"' is not assignable to type 'number'");
+        expect(noTypeCheckErrors.length).toBe(0);
+    });
+});
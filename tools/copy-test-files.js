@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+'use strict';
+
+const fs = require('fs-extra');
+const path = require('path');
+
+const rootDir = path.resolve(__dirname, '..');
+const destDir = path.resolve(__dirname, '../dist/test');
+
+// The built-in configs and schemas are resolved relative to the compiled sources
+fs.copySync(path.resolve(rootDir, 'configs'), path.resolve(destDir, 'configs'));
+fs.copySync(path.resolve(rootDir, 'schemas'), path.resolve(destDir, 'schemas'));
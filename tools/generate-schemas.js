@@ -30,6 +30,7 @@ function generateSchemas() {
 
     _generateSchema(tsConfigInput, 'AngularBuildConfig', path.resolve(schemaOutDir, 'schema.json'));
     _generateSchema(tsConfigInput, 'AppBuilderOptions', path.resolve(schemaOutDir, 'app-builder-options-schema.json'));
+    _generateSchema(tsConfigInput, 'DevServerBuilderOptions', path.resolve(schemaOutDir, 'dev-server-builder-options-schema.json'));
     _generateSchema(tsConfigInput, 'AppProjectConfig', path.resolve(schemaOutDir, 'app-project-config-schema.json'));
     _generateSchema(tsConfigInput, 'FaviconsConfig', path.resolve(schemaOutDir, 'favicon-config-schema.json'));
     _generateSchema(tsConfigInput, 'LibBuilderOptions', path.resolve(schemaOutDir, 'lib-builder-options-schema.json'));